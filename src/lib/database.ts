@@ -6,8 +6,36 @@ import type {
   ChartDrawing, 
   Note 
 } from './supabase'
-import type { HorizontalLineSettings } from './types'
-export type { HorizontalLineSettings } from './types'
+import type {
+  ChartStyle,
+  ChartStyleSettings,
+  HorizontalLineSettings,
+  LayoutSettings,
+  MovingAverageConfig,
+  MovingAverageSettings,
+  OscillatorSettings,
+  OscillatorType,
+  PriceAlertHit,
+  PriceOverlaySettings,
+  PriceOverlayType
+} from './types'
+export type {
+  ChartLayout,
+  ChartStyle,
+  ChartStyleSettings,
+  HorizontalLineSettings,
+  LayoutPreset,
+  LayoutSettings,
+  MovingAverageConfig,
+  MovingAverageSettings,
+  OscillatorSettings,
+  OscillatorType,
+  PaneContent,
+  PriceAlertCondition,
+  PriceAlertHit,
+  PriceOverlaySettings,
+  PriceOverlayType
+} from './types'
 
 export class SupabaseDatabase {
   // 銘柄関連
@@ -29,6 +57,23 @@ export class SupabaseDatabase {
     return await directDatabase.getStockData(ticker, timeframe, limit)
   }
 
+  async getStockDataByDateRange(
+    ticker: string,
+    timeframe: string,
+    fromDate: string,
+    toDate: string
+  ): Promise<StockPrice[]> {
+    return await directDatabase.getStockDataByDateRange(ticker, timeframe, fromDate, toDate)
+  }
+
+  async getLatestStockDateBefore(ticker: string, timeframe: string, beforeDate: string): Promise<string | null> {
+    return await directDatabase.getLatestStockDateBefore(ticker, timeframe, beforeDate)
+  }
+
+  async getClosesOnDate(date: string, timeframe: string = '1D'): Promise<{ ticker: string, close: number }[]> {
+    return await directDatabase.getClosesOnDate(date, timeframe)
+  }
+
   async getStockDataCount(ticker: string, timeframe: string): Promise<number> {
     return await directDatabase.getStockDataCount(ticker, timeframe)
   }
@@ -76,9 +121,17 @@ export class SupabaseDatabase {
     return await directDatabase.getChartDrawings(ticker, timeframe, userId)
   }
 
+  async getChartDrawing(id: string, userId?: string): Promise<ChartDrawing | null> {
+    return await directDatabase.getChartDrawing(id, userId)
+  }
+
+  async getPriceAlertDrawings(userId?: string): Promise<ChartDrawing[]> {
+    return await directDatabase.getPriceAlertDrawings(userId)
+  }
+
   async saveChartDrawing(
     ticker: string,
-    timeframe: string,
+    timeframe: ChartDrawing['timeframe'],
     type: string,
     data: Record<string, any>,
     userId?: string
@@ -88,7 +141,7 @@ export class SupabaseDatabase {
 
   async updateChartDrawing(
     id: string,
-    data: Partial<Record<'price' | 'color' | 'width', any>>,
+    data: Record<string, any>,
     userId?: string
   ): Promise<ChartDrawing | null> {
     return await directDatabase.updateChartDrawing(id, data, userId)
@@ -109,6 +162,78 @@ export class SupabaseDatabase {
     return await directDatabase.saveHorizontalLineSettings(userId, settings)
   }
 
+  async getMovingAverageSettings(userId?: string): Promise<MovingAverageSettings> {
+    return await directDatabase.getMovingAverageSettings(userId)
+  }
+
+  async saveMovingAverageSettings(
+    userId: string | undefined,
+    timeframe: string,
+    configs: MovingAverageConfig[]
+  ): Promise<MovingAverageConfig[]> {
+    return await directDatabase.saveMovingAverageSettings(userId, timeframe, configs)
+  }
+
+  async getOscillatorSettings(userId?: string): Promise<OscillatorSettings> {
+    return await directDatabase.getOscillatorSettings(userId)
+  }
+
+  async saveOscillatorSetting(
+    userId: string | undefined,
+    paneKey: string,
+    oscillator: OscillatorType
+  ): Promise<OscillatorType> {
+    return await directDatabase.saveOscillatorSetting(userId, paneKey, oscillator)
+  }
+
+  async getPriceOverlaySettings(userId?: string): Promise<PriceOverlaySettings> {
+    return await directDatabase.getPriceOverlaySettings(userId)
+  }
+
+  async savePriceOverlaySetting(
+    userId: string | undefined,
+    timeframe: string,
+    overlays: PriceOverlayType[]
+  ): Promise<PriceOverlayType[]> {
+    return await directDatabase.savePriceOverlaySetting(userId, timeframe, overlays)
+  }
+
+  async getChartStyleSettings(userId?: string): Promise<ChartStyleSettings> {
+    return await directDatabase.getChartStyleSettings(userId)
+  }
+
+  async saveChartStyleSetting(
+    userId: string | undefined,
+    position: string,
+    style: ChartStyle
+  ): Promise<ChartStyle> {
+    return await directDatabase.saveChartStyleSetting(userId, position, style)
+  }
+
+  async getLayoutSettings(userId?: string): Promise<LayoutSettings> {
+    return await directDatabase.getLayoutSettings(userId)
+  }
+
+  async saveLayoutSettings(userId: string | undefined, settings: LayoutSettings): Promise<LayoutSettings> {
+    return await directDatabase.saveLayoutSettings(userId, settings)
+  }
+
+  async getPriceAlertInbox(userId?: string): Promise<PriceAlertHit[]> {
+    return await directDatabase.getPriceAlertInbox(userId)
+  }
+
+  async savePriceAlertInbox(userId: string | undefined, hits: PriceAlertHit[]): Promise<PriceAlertHit[]> {
+    return await directDatabase.savePriceAlertInbox(userId, hits)
+  }
+
+  async getFiredPriceAlertIds(userId?: string): Promise<string[]> {
+    return await directDatabase.getFiredPriceAlertIds(userId)
+  }
+
+  async saveFiredPriceAlertIds(userId: string | undefined, ids: string[]): Promise<string[]> {
+    return await directDatabase.saveFiredPriceAlertIds(userId, ids)
+  }
+
   // リアルタイム購読
   subscribeToStockPrices(ticker: string, callback: (data: any) => void) {
     return directDatabase.subscribeToStockPrices(ticker, callback)
@@ -1,14 +1,167 @@
 // Direct HTTP implementation to bypass Supabase JavaScript library
+import { supabase } from './supabase'
+import { normalizeLayoutSettings } from './layouts'
 import type { TickerMaster, StockPrice, Watchlist, ChartDrawing, Note } from './supabase'
-import type { HorizontalLineSettings } from './types'
+import type {
+  ChartStyle,
+  ChartStyleSettings,
+  HorizontalLineSettings,
+  LayoutSettings,
+  MovingAverageConfig,
+  MovingAverageSettings,
+  OscillatorSettings,
+  OscillatorType,
+  PriceAlertCondition,
+  PriceAlertHit,
+  PriceOverlaySettings,
+  PriceOverlayType
+} from './types'
 
 const DEFAULT_HORIZONTAL_SETTINGS: HorizontalLineSettings = {
   color: '#FF0000',
   width: 3
 }
 
+// 時間足ごとの移動平均の初期値（日足: 5/25/75、週足: 13/26、月足: 12/24/60）
+const DEFAULT_MOVING_AVERAGE_SETTINGS: MovingAverageSettings = {
+  '60m': [
+    { type: 'SMA', period: 5, color: '#F39C12', enabled: true },
+    { type: 'SMA', period: 25, color: '#00B894', enabled: true },
+    { type: 'SMA', period: 75, color: '#6A5ACD', enabled: true }
+  ],
+  '1D': [
+    { type: 'SMA', period: 5, color: '#F39C12', enabled: true },
+    { type: 'SMA', period: 25, color: '#00B894', enabled: true },
+    { type: 'SMA', period: 75, color: '#6A5ACD', enabled: true }
+  ],
+  '1W': [
+    { type: 'SMA', period: 13, color: '#F39C12', enabled: true },
+    { type: 'SMA', period: 26, color: '#00B894', enabled: true }
+  ],
+  '1M': [
+    { type: 'SMA', period: 12, color: '#F39C12', enabled: true },
+    { type: 'SMA', period: 24, color: '#00B894', enabled: true },
+    { type: 'SMA', period: 60, color: '#6A5ACD', enabled: true }
+  ]
+}
+
+const MOVING_AVERAGE_STORAGE_KEY = 'movingAverageSettings'
+const OSCILLATOR_STORAGE_KEY = 'oscillatorSettings'
+const OSCILLATOR_TYPES: OscillatorType[] = ['none', 'rsi', 'macd', 'stochastics', 'rs_line']
+const PRICE_OVERLAY_STORAGE_KEY = 'priceOverlaySettings'
+const PRICE_OVERLAY_TYPES: PriceOverlayType[] = ['ichimoku', 'bollinger']
+const CHART_STYLE_STORAGE_KEY = 'chartStyleSettings'
+const CHART_STYLES: ChartStyle[] = ['candlestick', 'heikin_ashi', 'line', 'area', 'bar']
+const LAYOUT_STORAGE_KEY = 'chartLayoutSettings'
+const PRICE_ALERT_CONDITIONS: PriceAlertCondition[] = ['cross_up', 'cross_down', 'touch']
+const PRICE_ALERT_INBOX_STORAGE_KEY = 'priceAlertInbox'
+const MAX_PRICE_ALERT_INBOX_LENGTH = 200
+// 発火済みのアラートID（受信箱を消しても同じ足で再発火させないため、受信箱とは別に持つ）
+const PRICE_ALERT_FIRED_STORAGE_KEY = 'priceAlertFiredIds'
+const MAX_PRICE_ALERT_FIRED_LENGTH = 1000
+
+const cloneMovingAverageSettings = (settings: MovingAverageSettings): MovingAverageSettings => {
+  return Object.fromEntries(
+    Object.entries(settings).map(([timeframe, configs]) => [timeframe, configs.map(config => ({ ...config }))])
+  )
+}
+
+const normalizeMovingAverageConfig = (config: any): MovingAverageConfig | null => {
+  const period = Math.round(Number(config?.period))
+  if (!Number.isFinite(period) || period < 1) {
+    return null
+  }
+
+  return {
+    type: config.type === 'EMA' ? 'EMA' : 'SMA',
+    period: Math.min(500, period),
+    color: typeof config.color === 'string' ? config.color : '#808080',
+    enabled: config.enabled !== false
+  }
+}
+
+type DrawingType = ChartDrawing['type']
+
+const SUPPORTED_DRAWING_TYPES: DrawingType[] = ['horizontal_line', 'trend_line', 'rectangle', 'text', 'fibonacci']
+
+const DEFAULT_TEXT_FONT_SIZE = 14
+
+const DRAWING_ID_PREFIX: Record<DrawingType, string> = {
+  horizontal_line: 'hl',
+  trend_line: 'tl',
+  rectangle: 'rect',
+  text: 'txt',
+  fibonacci: 'fib'
+}
+
+const normalizeAnchor = (anchor: any): { time: number, price: number } | undefined => {
+  const time = Number(anchor?.time)
+  const price = Number(anchor?.price)
+  if (!Number.isFinite(time) || !Number.isFinite(price)) {
+    return undefined
+  }
+  return { time: Math.round(time), price }
+}
+
+// 描画種別ごとに保存するデータを整形（不要なキーは落とす）
+// allTimeframes は「全ての時間足に表示」フラグ。フラグ導入前の描画は全時間足に出ていたため、未設定は true とみなす
+const normalizeDrawingData = (type: DrawingType, data: Record<string, any>): Record<string, any> => {
+  const base = {
+    color: data.color ?? DEFAULT_HORIZONTAL_SETTINGS.color,
+    width: Number.isFinite(data.width) ? Number(data.width) : DEFAULT_HORIZONTAL_SETTINGS.width,
+    allTimeframes: data.allTimeframes !== false
+  }
+
+  switch (type) {
+    case 'trend_line':
+      return {
+        ...base,
+        start: normalizeAnchor(data.start),
+        end: normalizeAnchor(data.end),
+        extendRight: data.extendRight === true
+      }
+    case 'rectangle':
+    case 'fibonacci':
+      return {
+        ...base,
+        start: normalizeAnchor(data.start),
+        end: normalizeAnchor(data.end)
+      }
+    case 'text':
+      return {
+        color: base.color,
+        allTimeframes: base.allTimeframes,
+        anchor: normalizeAnchor(data.anchor),
+        text: typeof data.text === 'string' ? data.text : '',
+        fontSize: Number.isFinite(data.fontSize) ? Number(data.fontSize) : DEFAULT_TEXT_FONT_SIZE
+      }
+    case 'horizontal_line':
+    default:
+      return {
+        ...base,
+        price: data.price,
+        alert: PRICE_ALERT_CONDITIONS.includes(data.alert) ? data.alert : null
+      }
+  }
+}
+
+// chart_drawings の主キーは UUID。それ以外のIDは localStorage にしかない描画
+const REMOTE_DRAWING_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const isRemoteDrawingId = (id: string) => REMOTE_DRAWING_ID_PATTERN.test(id)
+
 const LINE_STORAGE_KEY = 'horizontalLinesByUser';
 const LEGACY_LINE_STORAGE_KEY = 'horizontalLines';
+// オフライン中に行った、Supabase 上の描画の更新・削除（次回の同期で送る）
+const PENDING_DRAWING_OPERATIONS_STORAGE_KEY = 'pendingDrawingOperations'
+
+type PendingDrawingOperation =
+  | { kind: 'update', drawing: ChartDrawing }
+  | { kind: 'delete', id: string }
+
+const pendingOperationId = (operation: PendingDrawingOperation) => {
+  return operation.kind === 'update' ? operation.drawing.id : operation.id
+}
 
 const SUPABASE_URL = (import.meta as any).env.VITE_SUPABASE_URL
 const SUPABASE_ANON_KEY = (import.meta as any).env.VITE_SUPABASE_ANON_KEY
@@ -22,6 +175,8 @@ class DirectSupabaseDatabase {
     'Prefer': 'return=representation'
   }
 
+  private localDrawingSyncs = new Map<string, Promise<void>>()
+
   private getUserKey(userId?: string) {
     return userId || 'guest'
   }
@@ -56,6 +211,54 @@ class DirectSupabaseDatabase {
     localStorage.setItem(LINE_STORAGE_KEY, JSON.stringify(store))
   }
 
+  private loadPendingOperations(userKey: string): PendingDrawingOperation[] {
+    try {
+      const stored = localStorage.getItem(PENDING_DRAWING_OPERATIONS_STORAGE_KEY)
+      const operations = stored ? JSON.parse(stored)[userKey] : null
+      return Array.isArray(operations) ? operations : []
+    } catch (error) {
+      console.error('[DirectDB] Failed to load pending drawing operations:', error)
+      return []
+    }
+  }
+
+  private savePendingOperations(userKey: string, operations: PendingDrawingOperation[]) {
+    const stored = localStorage.getItem(PENDING_DRAWING_OPERATIONS_STORAGE_KEY)
+    const allOperations = stored ? JSON.parse(stored) : {}
+    if (operations.length > 0) {
+      allOperations[userKey] = operations
+    } else {
+      delete allOperations[userKey]
+    }
+    localStorage.setItem(PENDING_DRAWING_OPERATIONS_STORAGE_KEY, JSON.stringify(allOperations))
+  }
+
+  // 同じ描画に対する未送信の操作は、最後の操作だけを残す
+  private queuePendingOperation(userKey: string, operation: PendingDrawingOperation) {
+    const id = pendingOperationId(operation)
+    this.savePendingOperations(userKey, [
+      ...this.loadPendingOperations(userKey).filter(pending => pendingOperationId(pending) !== id),
+      operation
+    ])
+    console.log(`[DirectDB] Queued ${operation.kind} of drawing until next sync:`, id)
+  }
+
+  // Supabase から取得した描画に、まだ送れていない更新・削除を反映する
+  private applyPendingOperations(userKey: string, drawings: ChartDrawing[]): ChartDrawing[] {
+    const operations = new Map(this.loadPendingOperations(userKey).map(operation => [pendingOperationId(operation), operation]))
+    if (operations.size === 0) {
+      return drawings
+    }
+
+    return drawings.flatMap(drawing => {
+      const operation = operations.get(drawing.id)
+      if (!operation) {
+        return [drawing]
+      }
+      return operation.kind === 'update' ? [{ ...operation.drawing, ticker: drawing.ticker }] : []
+    })
+  }
+
   private async request(endpoint: string, options: RequestInit = {}): Promise<any> {
     console.log(`[DirectDB] Making request to: ${this.baseUrl}${endpoint}`)
     
@@ -139,6 +342,33 @@ class DirectSupabaseDatabase {
   }
 
   // 株価データ関連
+  // 60分足は stock_prices の date が日付型で保存できないため、メインプロセスの SQLite から取得する
+  // SQLite の timestamp は '+09:00' 付きの日時なので、そのまま date として返す
+  private async getIntradayStockData(
+    ticker: string,
+    request: (api: NonNullable<Window['electronAPI']>) => Promise<any[]>
+  ): Promise<StockPrice[]> {
+    if (!window.electronAPI) {
+      console.log(`[DirectDB] 60m data is only available in the desktop app (${ticker})`)
+      return []
+    }
+
+    const rows = await request(window.electronAPI)
+    return rows.map(row => ({
+      id: String(row.id),
+      ticker: row.ticker,
+      date: row.timestamp,
+      timeframe: '60m',
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume,
+      created_at: row.created_at,
+      updated_at: row.created_at
+    }))
+  }
+
   async getStockData(
     ticker: string, 
     timeframe: string, 
@@ -147,6 +377,11 @@ class DirectSupabaseDatabase {
     console.log(`[DirectDB] Fetching stock data for ${ticker} ${timeframe}, limit: ${limit}`)
     
     try {
+      if (timeframe === '60m') {
+        return await this.getIntradayStockData(ticker, api => api.getStockData(ticker, timeframe, limit))
+      }
+
+
       // 4桁→5桁変換（末尾に0を追加）
       const fiveDigitTicker = ticker.length === 4 ? ticker + '0' : ticker
       console.log(`[DirectDB] Converting ${ticker} → ${fiveDigitTicker} for stock_prices_all lookup`)
@@ -180,6 +415,115 @@ class DirectSupabaseDatabase {
     }
   }
 
+  // 日付範囲指定でのデータ取得（過去方向へのスクロール時に古いバーを追加読み込みする）
+  async getStockDataByDateRange(
+    ticker: string,
+    timeframe: string,
+    fromDate: string,
+    toDate: string
+  ): Promise<StockPrice[]> {
+    console.log(`[DirectDB] Fetching stock data for ${ticker} ${timeframe} from ${fromDate} to ${toDate}`)
+
+    try {
+      if (timeframe === '60m') {
+        // timestamp は日時の文字列なので、終了日の取引時間まで含める
+        return await this.getIntradayStockData(
+          ticker,
+          api => api.getStockDataByDateRange(ticker, timeframe, fromDate, `${toDate}T23:59:59+09:00`)
+        )
+      }
+
+
+      // 4桁→5桁変換（末尾に0を追加）
+      const fiveDigitTicker = ticker.length === 4 ? ticker + '0' : ticker
+      const range = `timeframe=eq.${timeframe}&date=gte.${fromDate}&date=lte.${toDate}&order=date.asc`
+
+      // リプレイなどで長い期間を指定されても欠けないよう、ページネーションで全件取得
+      const fetchAll = async (code: string): Promise<StockPrice[]> => {
+        const rows: StockPrice[] = []
+        let offset = 0
+        const limit = 1000
+
+        // eslint-disable-next-line no-constant-condition
+        while (true) {
+          const data = await this.request(`/stock_prices_all?select=*&ticker=eq.${code}&${range}&offset=${offset}&limit=${limit}`)
+          rows.push(...data)
+          if (data.length < limit) {
+            break
+          }
+          offset += limit
+        }
+        return rows
+      }
+
+      let data = await fetchAll(fiveDigitTicker)
+
+      // 5桁で見つからない場合は、元の4桁コードでも検索
+      if (data.length === 0 && ticker !== fiveDigitTicker) {
+        data = await fetchAll(ticker)
+      }
+
+      console.log(`[DirectDB] Retrieved ${data.length} records for ${ticker} ${timeframe} (${fromDate}〜${toDate})`)
+      return data
+    } catch (error) {
+      // 過去方向の読み込みで「データがない」と区別できるよう、空配列にせず呼び出し元に投げる
+      console.error('[DirectDB] Error fetching stock data by date range:', error)
+      throw error
+    }
+  }
+
+  // 指定日より前で最も新しいバーの日付（取引停止などでバーのない期間の先に、まだデータがあるかの確認用）
+  // 「データがない」と区別できるよう、取得に失敗したときは null ではなく例外を投げる
+  async getLatestStockDateBefore(ticker: string, timeframe: string, beforeDate: string): Promise<string | null> {
+    if (timeframe === '60m') {
+      // SQLite の timestamp は日時の文字列なので、beforeDate 当日の足は含まれない
+      const rows = await this.getIntradayStockData(
+        ticker,
+        api => api.getStockDataByDateRange(ticker, timeframe, '1970-01-01', beforeDate)
+      )
+      return rows.length > 0 ? rows[rows.length - 1].date : null
+    }
+
+    // 4桁→5桁変換（末尾に0を追加）
+    const fiveDigitTicker = ticker.length === 4 ? ticker + '0' : ticker
+    const query = `select=date&timeframe=eq.${timeframe}&date=lt.${beforeDate}&order=date.desc&limit=1`
+
+    let data = await this.request(`/stock_prices_all?${query}&ticker=eq.${fiveDigitTicker}`)
+    // 5桁で見つからない場合は、元の4桁コードでも検索
+    if (data.length === 0 && ticker !== fiveDigitTicker) {
+      data = await this.request(`/stock_prices_all?${query}&ticker=eq.${ticker}`)
+    }
+    return data.length > 0 ? data[0].date : null
+  }
+
+  // 指定日の全銘柄の終値（RSレーティングの計算用）。ticker は stock_prices_all の5桁コードのまま返す
+  async getClosesOnDate(date: string, timeframe: string = '1D'): Promise<{ ticker: string, close: number }[]> {
+    try {
+      const closes: { ticker: string, close: number }[] = []
+      let offset = 0
+      const limit = 1000
+
+      // ページネーションで全件取得
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        const data = await this.request(
+          `/stock_prices_all?select=ticker,close&timeframe=eq.${timeframe}&date=eq.${date}&order=ticker&offset=${offset}&limit=${limit}`
+        )
+        closes.push(...data)
+        if (data.length < limit) {
+          break
+        }
+        offset += limit
+      }
+
+      console.log(`[DirectDB] Retrieved ${closes.length} closes on ${date}`)
+      return closes
+    } catch (error) {
+      console.error('[DirectDB] Error fetching closes by date:', error)
+      return []
+    }
+  }
+
   async getStockDataCount(ticker: string, timeframe: string): Promise<number> {
     try {
       console.log(`[DirectDB] Counting stock data for ${ticker} ${timeframe}`)
@@ -292,158 +636,390 @@ class DirectSupabaseDatabase {
     return false
   }
 
-  // チャート描画関連 - ローカルストレージ実装
-  async getChartDrawings(ticker: string, _timeframe: string, userId?: string): Promise<ChartDrawing[]> {
+  // チャート描画関連
+  // ログイン中は Supabase の chart_drawings を正とし、localStorage はオフライン用のキャッシュとして使う
+  // 未ログイン（guest）や通信できない場合は localStorage のみで動作する
+
+  private async getAccessToken(): Promise<string | null> {
     try {
-      const allLines = this.loadHorizontalLineStore()
-      const userKey = this.getUserKey(userId)
-      const tickerLines = allLines[userKey]?.[ticker] || []
+      const timeoutPromise = new Promise<null>(resolve => {
+        setTimeout(() => resolve(null), 3000)
+      })
+      const sessionPromise = supabase.auth.getSession()
+        .then(({ data }) => data.session?.access_token ?? null)
 
-      return tickerLines.map((line: any) => ({
-        ...line,
-        ticker,
-        timeframe: _timeframe,
-        type: 'horizontal_line',
-        user_id: line.user_id || userKey,
-        data: {
-          color: line.data?.color ?? DEFAULT_HORIZONTAL_SETTINGS.color,
-          width: Number.isFinite(line.data?.width) ? Number(line.data.width) : DEFAULT_HORIZONTAL_SETTINGS.width,
-          price: line.data?.price
+      return await Promise.race([sessionPromise, timeoutPromise])
+    } catch (error) {
+      console.warn('[DirectDB] Failed to get access token:', error)
+      return null
+    }
+  }
+
+  private authHeaders(accessToken: string) {
+    return { 'Authorization': `Bearer ${accessToken}` }
+  }
+
+  // リモートに保存できるのはログイン中のユーザーのみ
+  private canSyncRemote(userId?: string): boolean {
+    return !!userId && !!SUPABASE_URL
+  }
+
+  private async getRemoteAccessToken(userId?: string): Promise<string | null> {
+    if (!this.canSyncRemote(userId)) {
+      return null
+    }
+    return await this.getAccessToken()
+  }
+
+  private toDrawing(row: any, userKey: string): ChartDrawing {
+    const type: DrawingType = SUPPORTED_DRAWING_TYPES.includes(row.type) ? row.type : 'horizontal_line'
+    return {
+      ...row,
+      timeframe: row.timeframe || '1D',
+      type,
+      user_id: row.user_id || userKey,
+      data: normalizeDrawingData(type, row.data || {})
+    }
+  }
+
+  private updateCachedTicker(userKey: string, ticker: string, update: (lines: ChartDrawing[]) => ChartDrawing[]) {
+    const allLines = this.loadHorizontalLineStore()
+    if (!allLines[userKey]) {
+      allLines[userKey] = {}
+    }
+
+    const lines = update(allLines[userKey][ticker] || [])
+    if (lines.length > 0) {
+      allLines[userKey][ticker] = lines
+    } else {
+      delete allLines[userKey][ticker]
+    }
+    this.saveHorizontalLineStore(allLines)
+  }
+
+  private findCachedDrawing(userKey: string, id: string): ChartDrawing | null {
+    const tickers = this.loadHorizontalLineStore()[userKey] || {}
+    for (const ticker of Object.keys(tickers)) {
+      const line = tickers[ticker].find((drawing: ChartDrawing) => drawing.id === id)
+      if (line) {
+        return { ...line, ticker }
+      }
+    }
+    return null
+  }
+
+  private async insertRemoteDrawing(drawing: ChartDrawing, accessToken: string): Promise<ChartDrawing> {
+    const rows = await this.request('/chart_drawings', {
+      method: 'POST',
+      headers: this.authHeaders(accessToken),
+      body: JSON.stringify({
+        user_id: drawing.user_id,
+        ticker: drawing.ticker,
+        timeframe: drawing.timeframe,
+        type: drawing.type,
+        data: drawing.data
+      })
+    })
+    return this.toDrawing(rows[0], drawing.user_id)
+  }
+
+  // localStorage にしかない描画（移行前の描画・オフライン中に追加した描画）のアップロードと、
+  // オフライン中の更新・削除の送信を行う。送れなかったものは残り、次の同期で再送する
+  // 複数ペインから同時に呼ばれるため、実行中の同期はユーザーごとに共有する
+  private syncLocalDrawings(userKey: string, accessToken: string): Promise<void> {
+    let sync = this.localDrawingSyncs.get(userKey)
+    if (!sync) {
+      sync = this.uploadLocalDrawings(userKey, accessToken)
+        .then(() => this.flushPendingOperations(userKey, accessToken))
+        .finally(() => this.localDrawingSyncs.delete(userKey))
+      this.localDrawingSyncs.set(userKey, sync)
+    }
+    return sync
+  }
+
+  // アップロード済みの描画はサーバー側の UUID に置き換わるため、同じ描画が二重に登録されることはない
+  private async uploadLocalDrawings(userKey: string, accessToken: string) {
+    const tickers = this.loadHorizontalLineStore()[userKey] || {}
+    for (const ticker of Object.keys(tickers)) {
+      const localOnly = tickers[ticker].filter((line: ChartDrawing) => !isRemoteDrawingId(line.id))
+      for (const line of localOnly) {
+        try {
+          const uploaded = await this.insertRemoteDrawing(this.toDrawing({ ...line, ticker }, userKey), accessToken)
+          this.updateCachedTicker(userKey, ticker, lines => lines.map(cached => cached.id === line.id ? uploaded : cached))
+          console.log(`[DirectDB] Migrated local ${line.type} to Supabase:`, line.id, '→', uploaded.id)
+        } catch (error) {
+          console.warn('[DirectDB] Failed to migrate local drawing, will retry on next sync:', line.id, error)
+        }
+      }
+    }
+  }
+
+  private async flushPendingOperations(userKey: string, accessToken: string) {
+    for (const operation of this.loadPendingOperations(userKey)) {
+      const id = pendingOperationId(operation)
+      try {
+        if (operation.kind === 'update') {
+          await this.request(`/chart_drawings?id=eq.${id}`, {
+            method: 'PATCH',
+            headers: this.authHeaders(accessToken),
+            body: JSON.stringify({ timeframe: operation.drawing.timeframe, data: operation.drawing.data })
+          })
+        } else {
+          await this.request(`/chart_drawings?id=eq.${id}`, {
+            method: 'DELETE',
+            headers: this.authHeaders(accessToken)
+          })
         }
-      }))
+        // 送信中に同じ描画が再び操作されていたら、そちらを残す
+        this.savePendingOperations(userKey, this.loadPendingOperations(userKey)
+          .filter(pending => JSON.stringify(pending) !== JSON.stringify(operation)))
+        console.log(`[DirectDB] Sent queued ${operation.kind} of drawing:`, id)
+      } catch (error) {
+        console.warn(`[DirectDB] Failed to send queued ${operation.kind} of drawing, will retry on next sync:`, id, error)
+      }
+    }
+  }
+
+  // 「全ての時間足」の描画と、指定した時間足で作成された描画を返す
+  async getChartDrawings(ticker: string, timeframe: string, userId?: string): Promise<ChartDrawing[]> {
+    const userKey = this.getUserKey(userId)
+
+    try {
+      const accessToken = await this.getRemoteAccessToken(userId)
+      if (accessToken) {
+        try {
+          await this.syncLocalDrawings(userKey, accessToken)
+
+          const rows = await this.request(
+            `/chart_drawings?select=*&user_id=eq.${userId}&ticker=eq.${encodeURIComponent(ticker)}&order=created_at.asc`,
+            { headers: this.authHeaders(accessToken) }
+          )
+          const remote = this.applyPendingOperations(userKey, rows.map((row: any) => this.toDrawing(row, userKey)))
+
+          // まだアップロードできていない描画はキャッシュに残す
+          this.updateCachedTicker(userKey, ticker, lines => [
+            ...remote,
+            ...lines.filter(line => !isRemoteDrawingId(line.id))
+          ])
+        } catch (error) {
+          console.warn('[DirectDB] Failed to fetch chart drawings, using local cache:', error)
+        }
+      }
+
+      const tickerLines = this.loadHorizontalLineStore()[userKey]?.[ticker] || []
+
+      return tickerLines
+        .map((line: any) => this.toDrawing({ ...line, ticker }, userKey))
+        .filter((line: ChartDrawing) => line.data.allTimeframes || line.timeframe === timeframe)
     } catch (error) {
-      console.error('[DirectDB] Error loading horizontal lines:', error)
+      console.error('[DirectDB] Error loading chart drawings:', error)
+      return []
+    }
+  }
+
+  // キャッシュから1件取得（保存・更新・削除のたびにキャッシュも更新しているため最新の状態を返す）
+  async getChartDrawing(id: string, userId?: string): Promise<ChartDrawing | null> {
+    try {
+      const cached = this.findCachedDrawing(this.getUserKey(userId), id)
+      return cached ? this.toDrawing(cached, this.getUserKey(userId)) : null
+    } catch (error) {
+      console.error('[DirectDB] Error loading chart drawing:', error)
+      return null
+    }
+  }
+
+  // アラートが設定された水平線を全銘柄分返す
+  // ログイン中はまだ開いていない銘柄の水平線もあるため、Supabase から取得してキャッシュを更新する
+  async getPriceAlertDrawings(userId?: string): Promise<ChartDrawing[]> {
+    const userKey = this.getUserKey(userId)
+
+    try {
+      const accessToken = await this.getRemoteAccessToken(userId)
+      if (accessToken) {
+        try {
+          await this.syncLocalDrawings(userKey, accessToken)
+
+          const rows = await this.request(
+            `/chart_drawings?select=*&user_id=eq.${userId}&type=eq.horizontal_line&data->>alert=not.is.null`,
+            { headers: this.authHeaders(accessToken) }
+          )
+          const remote: ChartDrawing[] = this.applyPendingOperations(userKey, rows.map((row: any) => this.toDrawing(row, userKey)))
+          const remoteIds = new Set(remote.map(line => line.id))
+
+          // 他のPCでアラートを外した・削除した水平線は応答に含まれないので、キャッシュ側のアラートも外す
+          const cachedTickers = Object.keys(this.loadHorizontalLineStore()[userKey] || {})
+          new Set([...cachedTickers, ...remote.map(line => line.ticker)]).forEach(ticker => {
+            this.updateCachedTicker(userKey, ticker, lines => [
+              ...lines
+                .filter(line => !remoteIds.has(line.id))
+                .map(line => isRemoteDrawingId(line.id) && line.data?.alert
+                  ? { ...line, data: { ...line.data, alert: null } }
+                  : line),
+              ...remote.filter(line => line.ticker === ticker)
+            ])
+          })
+        } catch (error) {
+          console.warn('[DirectDB] Failed to fetch price alerts, using local cache:', error)
+        }
+      }
+
+      const tickers = this.loadHorizontalLineStore()[userKey] || {}
+      return Object.keys(tickers).flatMap(ticker => tickers[ticker]
+        .map((line: any) => this.toDrawing({ ...line, ticker }, userKey))
+        .filter((line: ChartDrawing) => line.type === 'horizontal_line' && line.data.alert)
+      )
+    } catch (error) {
+      console.error('[DirectDB] Error loading price alerts:', error)
       return []
     }
   }
 
   async saveChartDrawing(
     ticker: string,
-    _timeframe: string,
+    timeframe: ChartDrawing['timeframe'],
     type: string,
     data: Record<string, any>,
     userId?: string
   ): Promise<ChartDrawing | null> {
-    if (type !== 'horizontal_line') {
-      console.log('[DirectDB] Only horizontal_line type is supported')
+    if (!SUPPORTED_DRAWING_TYPES.includes(type as DrawingType)) {
+      console.log(`[DirectDB] Unsupported drawing type: ${type}`)
       return null
     }
+    const drawingType = type as DrawingType
+    const userKey = this.getUserKey(userId)
 
     try {
-      const allLines = this.loadHorizontalLineStore()
-      const userKey = this.getUserKey(userId)
-
-      if (!allLines[userKey]) {
-        allLines[userKey] = {}
-      }
-
-      if (!allLines[userKey][ticker]) {
-        allLines[userKey][ticker] = []
-      }
-
       const newLine: ChartDrawing = {
-        id: `hl_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+        id: `${DRAWING_ID_PREFIX[drawingType]}_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
         ticker,
-        timeframe: '1D' as any,
-        type: 'horizontal_line',
-        data: {
-          color: data.color ?? DEFAULT_HORIZONTAL_SETTINGS.color,
-          width: Number.isFinite(data.width) ? Number(data.width) : DEFAULT_HORIZONTAL_SETTINGS.width,
-          price: data.price
-        },
+        timeframe,
+        type: drawingType,
+        data: normalizeDrawingData(drawingType, data),
         user_id: userKey,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       }
 
-      allLines[userKey][ticker].push(newLine)
-      this.saveHorizontalLineStore(allLines)
+      let saved = newLine
+      const accessToken = await this.getRemoteAccessToken(userId)
+      if (accessToken) {
+        try {
+          saved = await this.insertRemoteDrawing(newLine, accessToken)
+        } catch (error) {
+          // 保存できなかった描画はローカルIDのままキャッシュし、次回の同期でアップロードする
+          console.warn('[DirectDB] Failed to save drawing to Supabase, keeping it locally:', error)
+        }
+      }
+
+      this.updateCachedTicker(userKey, ticker, lines => [...lines, saved])
 
-      console.log('[DirectDB] Saved horizontal line:', newLine)
-      return newLine
+      console.log(`[DirectDB] Saved ${drawingType}:`, saved)
+      return saved
     } catch (error) {
-      console.error('[DirectDB] Error saving horizontal line:', error)
+      console.error('[DirectDB] Error saving chart drawing:', error)
       return null
     }
   }
 
   async updateChartDrawing(
     id: string,
-    updates: Partial<Record<'price' | 'color' | 'width', any>>,
+    updates: Record<string, any>,
     userId?: string
   ): Promise<ChartDrawing | null> {
+    const userKey = this.getUserKey(userId)
+
     try {
-      const allLines = this.loadHorizontalLineStore()
-      const userKey = this.getUserKey(userId)
-      if (!allLines[userKey]) {
+      const target = this.findCachedDrawing(userKey, id)
+      if (!target) {
         return null
       }
 
-      let updated: ChartDrawing | null = null
+      const type: DrawingType = SUPPORTED_DRAWING_TYPES.includes(target.type) ? target.type : 'horizontal_line'
+      // timeframe は描画データではなくレコードの項目（「この時間足のみ」に切り替えた時間足）
+      const { timeframe, ...dataUpdates } = updates
 
-      for (const ticker of Object.keys(allLines[userKey])) {
-        const lines: ChartDrawing[] = allLines[userKey][ticker]
-        const index = lines.findIndex((line: ChartDrawing) => line.id === id)
-        if (index === -1) continue
+      const merged: ChartDrawing = {
+        ...target,
+        type,
+        timeframe: timeframe ?? target.timeframe ?? '1D',
+        data: normalizeDrawingData(type, { ...target.data, ...dataUpdates }),
+        updated_at: new Date().toISOString()
+      }
 
-        const target = lines[index]
-        const nextData = {
-          ...target.data,
-          ...('price' in updates ? { price: updates.price } : {}),
-          ...('color' in updates ? { color: updates.color } : {}),
-          ...('width' in updates ? { width: updates.width } : {})
-        }
+      // 先にキャッシュを更新し、Supabase に送れなければ次の同期まで保留する
+      // （ローカルIDの描画は、アップロード時にキャッシュの内容がそのまま送られる）
+      this.updateCachedTicker(userKey, target.ticker, lines => lines.map(line => line.id === id ? merged : line))
+      console.log(`[DirectDB] Updated ${merged.type}:`, merged.id)
 
-        const merged: ChartDrawing = {
-          ...target,
-          data: {
-            color: nextData.color ?? DEFAULT_HORIZONTAL_SETTINGS.color,
-            width: Number.isFinite(nextData.width) ? Number(nextData.width) : DEFAULT_HORIZONTAL_SETTINGS.width,
-            price: nextData.price
-          },
-          updated_at: new Date().toISOString()
+      if (isRemoteDrawingId(id) && this.canSyncRemote(userId)) {
+        try {
+          const accessToken = await this.getRemoteAccessToken(userId)
+          if (!accessToken) {
+            throw new Error('No access token')
+          }
+          await this.request(`/chart_drawings?id=eq.${id}`, {
+            method: 'PATCH',
+            headers: this.authHeaders(accessToken),
+            body: JSON.stringify({ timeframe: merged.timeframe, data: merged.data })
+          })
+        } catch (error) {
+          console.warn('[DirectDB] Failed to update drawing on Supabase, keeping it locally:', error)
+          this.queuePendingOperation(userKey, { kind: 'update', drawing: merged })
         }
-
-        lines[index] = merged
-        updated = { ...merged, ticker }
-        break
       }
 
-      if (updated) {
-        this.saveHorizontalLineStore(allLines)
-        console.log('[DirectDB] Updated horizontal line:', updated.id)
-      }
-
-      return updated
+      return merged
     } catch (error) {
-      console.error('[DirectDB] Error updating horizontal line:', error)
+      console.error('[DirectDB] Error updating chart drawing:', error)
       return null
     }
   }
 
   async deleteChartDrawing(id: string, userId?: string): Promise<boolean> {
+    const userKey = this.getUserKey(userId)
+
     try {
-      const allLines = this.loadHorizontalLineStore()
-      const userKey = this.getUserKey(userId)
-      if (!allLines[userKey]) return false
-
-      for (const ticker in allLines[userKey]) {
-        const lines = allLines[userKey][ticker]
-        const index = lines.findIndex((line: any) => line.id === id)
-        if (index !== -1) {
-          lines.splice(index, 1)
-          if (lines.length === 0) {
-            delete allLines[userKey][ticker]
+      const target = this.findCachedDrawing(userKey, id)
+      const isRemote = isRemoteDrawingId(id) && this.canSyncRemote(userId)
+      if (!target && !isRemote) {
+        return false
+      }
+
+      // 先にキャッシュから消し、Supabase に送れなければ次の同期まで保留する
+      if (target) {
+        this.updateCachedTicker(userKey, target.ticker, lines => lines.filter(line => line.id !== id))
+      }
+
+      if (isRemote) {
+        try {
+          const accessToken = await this.getRemoteAccessToken(userId)
+          if (!accessToken) {
+            throw new Error('No access token')
           }
-          this.saveHorizontalLineStore(allLines)
-          console.log('[DirectDB] Deleted horizontal line:', id)
-          return true
+          const rows = await this.request(`/chart_drawings?id=eq.${id}`, {
+            method: 'DELETE',
+            headers: this.authHeaders(accessToken)
+          })
+          // キャッシュにない描画は、Supabase で実際に削除できたかを結果とする
+          if (!target && (!Array.isArray(rows) || rows.length === 0)) {
+            console.warn('[DirectDB] Chart drawing to delete was not found:', id)
+            return false
+          }
+        } catch (error) {
+          // キャッシュにない描画は、削除できなかったものとして返す（元に戻す履歴に残さない）
+          if (!target) {
+            console.error('[DirectDB] Failed to delete drawing on Supabase:', error)
+            return false
+          }
+          console.warn('[DirectDB] Failed to delete drawing on Supabase, deleting it on next sync:', error)
+          this.queuePendingOperation(userKey, { kind: 'delete', id })
         }
       }
 
-      return false
+      console.log('[DirectDB] Deleted chart drawing:', id)
+      return true
     } catch (error) {
-      console.error('[DirectDB] Error deleting horizontal line:', error)
+      console.error('[DirectDB] Error deleting chart drawing:', error)
       return false
     }
   }
@@ -480,7 +1056,9 @@ class DirectSupabaseDatabase {
 
       return {
         color: typeof settings.color === 'string' ? settings.color : DEFAULT_HORIZONTAL_SETTINGS.color,
-        width: Number.isFinite(settings.width) ? Number(settings.width) : DEFAULT_HORIZONTAL_SETTINGS.width
+        width: Number.isFinite(settings.width) ? Number(settings.width) : DEFAULT_HORIZONTAL_SETTINGS.width,
+        snapToTick: settings.snapToTick === true,
+        magnet: settings.magnet === true
       }
     } catch (error) {
       console.error('[DirectDB] Error loading horizontal line settings:', error)
@@ -499,20 +1077,306 @@ class DirectSupabaseDatabase {
 
       allSettings[key] = {
         color: settings.color,
-        width: Number(settings.width)
+        width: Number(settings.width),
+        snapToTick: settings.snapToTick === true,
+        magnet: settings.magnet === true
       }
 
       localStorage.setItem('horizontalLineSettings', JSON.stringify(allSettings))
       console.log('[DirectDB] Saved horizontal line settings for', key, settings)
-      return {
-        color: settings.color,
-        width: Number(settings.width)
-      }
+      return { ...allSettings[key] }
     } catch (error) {
       console.error('[DirectDB] Error saving horizontal line settings:', error)
       return { ...DEFAULT_HORIZONTAL_SETTINGS }
     }
   }
+
+  async getMovingAverageSettings(userId?: string): Promise<MovingAverageSettings> {
+    const settings = cloneMovingAverageSettings(DEFAULT_MOVING_AVERAGE_SETTINGS)
+
+    try {
+      const key = this.getUserKey(userId)
+      const stored = localStorage.getItem(MOVING_AVERAGE_STORAGE_KEY)
+      if (!stored) {
+        return settings
+      }
+
+      const userSettings = JSON.parse(stored)[key]
+      if (!userSettings) {
+        return settings
+      }
+
+      // 保存済みの時間足のみ上書きし、未設定の時間足は初期値を使う
+      Object.keys(userSettings).forEach(timeframe => {
+        if (!Array.isArray(userSettings[timeframe])) return
+        settings[timeframe] = userSettings[timeframe]
+          .map(normalizeMovingAverageConfig)
+          .filter((config: MovingAverageConfig | null): config is MovingAverageConfig => config !== null)
+      })
+
+      return settings
+    } catch (error) {
+      console.error('[DirectDB] Error loading moving average settings:', error)
+      return settings
+    }
+  }
+
+  async saveMovingAverageSettings(
+    userId: string | undefined,
+    timeframe: string,
+    configs: MovingAverageConfig[]
+  ): Promise<MovingAverageConfig[]> {
+    const normalized = configs
+      .map(normalizeMovingAverageConfig)
+      .filter((config): config is MovingAverageConfig => config !== null)
+
+    try {
+      const key = this.getUserKey(userId)
+      const stored = localStorage.getItem(MOVING_AVERAGE_STORAGE_KEY)
+      const allSettings = stored ? JSON.parse(stored) : {}
+
+      allSettings[key] = {
+        ...(allSettings[key] || {}),
+        [timeframe]: normalized
+      }
+
+      localStorage.setItem(MOVING_AVERAGE_STORAGE_KEY, JSON.stringify(allSettings))
+      console.log('[DirectDB] Saved moving average settings for', key, timeframe, normalized)
+    } catch (error) {
+      console.error('[DirectDB] Error saving moving average settings:', error)
+    }
+
+    return normalized
+  }
+
+  async getOscillatorSettings(userId?: string): Promise<OscillatorSettings> {
+    try {
+      const key = this.getUserKey(userId)
+      const stored = localStorage.getItem(OSCILLATOR_STORAGE_KEY)
+      const userSettings = stored ? JSON.parse(stored)[key] : null
+      if (!userSettings) {
+        return {}
+      }
+
+      const settings: OscillatorSettings = {}
+      Object.keys(userSettings).forEach(paneKey => {
+        if (OSCILLATOR_TYPES.includes(userSettings[paneKey])) {
+          settings[paneKey] = userSettings[paneKey]
+        }
+      })
+      return settings
+    } catch (error) {
+      console.error('[DirectDB] Error loading oscillator settings:', error)
+      return {}
+    }
+  }
+
+  async saveOscillatorSetting(
+    userId: string | undefined,
+    paneKey: string,
+    oscillator: OscillatorType
+  ): Promise<OscillatorType> {
+    const normalized = OSCILLATOR_TYPES.includes(oscillator) ? oscillator : 'none'
+
+    try {
+      const key = this.getUserKey(userId)
+      const stored = localStorage.getItem(OSCILLATOR_STORAGE_KEY)
+      const allSettings = stored ? JSON.parse(stored) : {}
+
+      allSettings[key] = {
+        ...(allSettings[key] || {}),
+        [paneKey]: normalized
+      }
+
+      localStorage.setItem(OSCILLATOR_STORAGE_KEY, JSON.stringify(allSettings))
+      console.log('[DirectDB] Saved oscillator setting for', key, paneKey, normalized)
+    } catch (error) {
+      console.error('[DirectDB] Error saving oscillator setting:', error)
+    }
+
+    return normalized
+  }
+
+  async getPriceOverlaySettings(userId?: string): Promise<PriceOverlaySettings> {
+    try {
+      const key = this.getUserKey(userId)
+      const stored = localStorage.getItem(PRICE_OVERLAY_STORAGE_KEY)
+      const userSettings = stored ? JSON.parse(stored)[key] : null
+      if (!userSettings) {
+        return {}
+      }
+
+      const settings: PriceOverlaySettings = {}
+      Object.keys(userSettings).forEach(timeframe => {
+        if (!Array.isArray(userSettings[timeframe])) return
+        settings[timeframe] = userSettings[timeframe].filter((overlay: PriceOverlayType) => PRICE_OVERLAY_TYPES.includes(overlay))
+      })
+      return settings
+    } catch (error) {
+      console.error('[DirectDB] Error loading price overlay settings:', error)
+      return {}
+    }
+  }
+
+  async savePriceOverlaySetting(
+    userId: string | undefined,
+    timeframe: string,
+    overlays: PriceOverlayType[]
+  ): Promise<PriceOverlayType[]> {
+    const normalized = overlays.filter(overlay => PRICE_OVERLAY_TYPES.includes(overlay))
+
+    try {
+      const key = this.getUserKey(userId)
+      const stored = localStorage.getItem(PRICE_OVERLAY_STORAGE_KEY)
+      const allSettings = stored ? JSON.parse(stored) : {}
+
+      allSettings[key] = {
+        ...(allSettings[key] || {}),
+        [timeframe]: normalized
+      }
+
+      localStorage.setItem(PRICE_OVERLAY_STORAGE_KEY, JSON.stringify(allSettings))
+      console.log('[DirectDB] Saved price overlay setting for', key, timeframe, normalized)
+    } catch (error) {
+      console.error('[DirectDB] Error saving price overlay setting:', error)
+    }
+
+    return normalized
+  }
+
+  async getChartStyleSettings(userId?: string): Promise<ChartStyleSettings> {
+    try {
+      const key = this.getUserKey(userId)
+      const stored = localStorage.getItem(CHART_STYLE_STORAGE_KEY)
+      const userSettings = stored ? JSON.parse(stored)[key] : null
+      if (!userSettings) {
+        return {}
+      }
+
+      const settings: ChartStyleSettings = {}
+      Object.keys(userSettings).forEach(position => {
+        if (CHART_STYLES.includes(userSettings[position])) {
+          settings[position] = userSettings[position]
+        }
+      })
+      return settings
+    } catch (error) {
+      console.error('[DirectDB] Error loading chart style settings:', error)
+      return {}
+    }
+  }
+
+  async saveChartStyleSetting(
+    userId: string | undefined,
+    position: string,
+    style: ChartStyle
+  ): Promise<ChartStyle> {
+    const normalized = CHART_STYLES.includes(style) ? style : 'candlestick'
+
+    try {
+      const key = this.getUserKey(userId)
+      const stored = localStorage.getItem(CHART_STYLE_STORAGE_KEY)
+      const allSettings = stored ? JSON.parse(stored) : {}
+
+      allSettings[key] = {
+        ...(allSettings[key] || {}),
+        [position]: normalized
+      }
+
+      localStorage.setItem(CHART_STYLE_STORAGE_KEY, JSON.stringify(allSettings))
+      console.log('[DirectDB] Saved chart style setting for', key, position, normalized)
+    } catch (error) {
+      console.error('[DirectDB] Error saving chart style setting:', error)
+    }
+
+    return normalized
+  }
+
+  async getLayoutSettings(userId?: string): Promise<LayoutSettings> {
+    try {
+      const stored = localStorage.getItem(LAYOUT_STORAGE_KEY)
+      const userSettings = stored ? JSON.parse(stored)[this.getUserKey(userId)] : null
+      return normalizeLayoutSettings(userSettings)
+    } catch (error) {
+      console.error('[DirectDB] Error loading layout settings:', error)
+      return normalizeLayoutSettings(null)
+    }
+  }
+
+  async saveLayoutSettings(userId: string | undefined, settings: LayoutSettings): Promise<LayoutSettings> {
+    const normalized = normalizeLayoutSettings(settings)
+
+    try {
+      const key = this.getUserKey(userId)
+      const stored = localStorage.getItem(LAYOUT_STORAGE_KEY)
+      const allSettings = stored ? JSON.parse(stored) : {}
+
+      allSettings[key] = normalized
+      localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(allSettings))
+      console.log('[DirectDB] Saved layout settings for', key, normalized.layouts.length)
+    } catch (error) {
+      console.error('[DirectDB] Error saving layout settings:', error)
+    }
+
+    return normalized
+  }
+
+  async getPriceAlertInbox(userId?: string): Promise<PriceAlertHit[]> {
+    try {
+      const stored = localStorage.getItem(PRICE_ALERT_INBOX_STORAGE_KEY)
+      const inbox = stored ? JSON.parse(stored)[this.getUserKey(userId)] : null
+      return Array.isArray(inbox) ? inbox : []
+    } catch (error) {
+      console.error('[DirectDB] Error loading price alert inbox:', error)
+      return []
+    }
+  }
+
+  async savePriceAlertInbox(userId: string | undefined, hits: PriceAlertHit[]): Promise<PriceAlertHit[]> {
+    const trimmed = hits.slice(0, MAX_PRICE_ALERT_INBOX_LENGTH)
+
+    try {
+      const key = this.getUserKey(userId)
+      const stored = localStorage.getItem(PRICE_ALERT_INBOX_STORAGE_KEY)
+      const allInboxes = stored ? JSON.parse(stored) : {}
+
+      allInboxes[key] = trimmed
+      localStorage.setItem(PRICE_ALERT_INBOX_STORAGE_KEY, JSON.stringify(allInboxes))
+    } catch (error) {
+      console.error('[DirectDB] Error saving price alert inbox:', error)
+    }
+
+    return trimmed
+  }
+
+  async getFiredPriceAlertIds(userId?: string): Promise<string[]> {
+    try {
+      const stored = localStorage.getItem(PRICE_ALERT_FIRED_STORAGE_KEY)
+      const ids = stored ? JSON.parse(stored)[this.getUserKey(userId)] : null
+      return Array.isArray(ids) ? ids : []
+    } catch (error) {
+      console.error('[DirectDB] Error loading fired price alert ids:', error)
+      return []
+    }
+  }
+
+  // 新しいものから MAX_PRICE_ALERT_FIRED_LENGTH 件だけ残す
+  async saveFiredPriceAlertIds(userId: string | undefined, ids: string[]): Promise<string[]> {
+    const trimmed = ids.slice(0, MAX_PRICE_ALERT_FIRED_LENGTH)
+
+    try {
+      const key = this.getUserKey(userId)
+      const stored = localStorage.getItem(PRICE_ALERT_FIRED_STORAGE_KEY)
+      const allIds = stored ? JSON.parse(stored) : {}
+
+      allIds[key] = trimmed
+      localStorage.setItem(PRICE_ALERT_FIRED_STORAGE_KEY, JSON.stringify(allIds))
+    } catch (error) {
+      console.error('[DirectDB] Error saving fired price alert ids:', error)
+    }
+
+    return trimmed
+  }
 }
 
 // シングルトンインスタンス
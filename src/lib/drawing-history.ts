@@ -0,0 +1,183 @@
+// 描画オブジェクトの編集履歴（元に戻す／やり直し）
+// 作成・移動・変更・削除を銘柄ごとのスタックに積み、database 経由で状態を復元する
+import { database } from './database'
+import type { ChartDrawing } from './supabase'
+
+interface DrawingSnapshot {
+  ticker: string
+  timeframe: ChartDrawing['timeframe']
+  type: ChartDrawing['type']
+  data: Record<string, any>
+}
+
+type DrawingHistoryEntry =
+  | { kind: 'create', id: string, snapshot: DrawingSnapshot }
+  | { kind: 'update', id: string, before: DrawingSnapshot, after: DrawingSnapshot }
+  | { kind: 'delete', id: string, snapshot: DrawingSnapshot }
+
+interface TickerHistory {
+  undo: DrawingHistoryEntry[]
+  redo: DrawingHistoryEntry[]
+}
+
+const MAX_HISTORY_LENGTH = 100
+
+const toSnapshot = (drawing: ChartDrawing): DrawingSnapshot => ({
+  ticker: drawing.ticker,
+  timeframe: drawing.timeframe,
+  type: drawing.type,
+  data: drawing.data
+})
+
+class DrawingHistory {
+  private histories = new Map<string, TickerHistory>()
+
+  private historyOf(ticker: string): TickerHistory {
+    let history = this.histories.get(ticker)
+    if (!history) {
+      history = { undo: [], redo: [] }
+      this.histories.set(ticker, history)
+    }
+    return history
+  }
+
+  private push(ticker: string, entry: DrawingHistoryEntry) {
+    const history = this.historyOf(ticker)
+    history.undo.push(entry)
+    if (history.undo.length > MAX_HISTORY_LENGTH) {
+      history.undo.shift()
+    }
+    history.redo = []
+  }
+
+  // 削除の取り消しなどで再作成するとIDが変わるため、履歴内の参照を付け替える
+  private replaceId(ticker: string, oldId: string, newId: string) {
+    const history = this.historyOf(ticker)
+    for (const entry of [...history.undo, ...history.redo]) {
+      if (entry.id === oldId) {
+        entry.id = newId
+      }
+    }
+  }
+
+  async save(
+    ticker: string,
+    timeframe: ChartDrawing['timeframe'],
+    type: string,
+    data: Record<string, any>,
+    userId?: string
+  ): Promise<ChartDrawing | null> {
+    const saved = await database.saveChartDrawing(ticker, timeframe, type, data, userId)
+    if (saved) {
+      this.push(ticker, { kind: 'create', id: saved.id, snapshot: toSnapshot(saved) })
+    }
+    return saved
+  }
+
+  async update(id: string, updates: Record<string, any>, userId?: string): Promise<ChartDrawing | null> {
+    const before = await database.getChartDrawing(id, userId)
+    const after = await database.updateChartDrawing(id, updates, userId)
+
+    // 位置も設定も変わらない更新（掴んだだけのドラッグなど）は履歴に残さない
+    if (before && after && JSON.stringify(toSnapshot(before)) !== JSON.stringify(toSnapshot(after))) {
+      this.push(before.ticker, { kind: 'update', id, before: toSnapshot(before), after: toSnapshot(after) })
+    }
+    return after
+  }
+
+  async delete(id: string, userId?: string): Promise<boolean> {
+    const before = await database.getChartDrawing(id, userId)
+    const success = await database.deleteChartDrawing(id, userId)
+    if (success && before) {
+      this.push(before.ticker, { kind: 'delete', id, snapshot: toSnapshot(before) })
+    }
+    return success
+  }
+
+  canUndo(ticker: string): boolean {
+    return this.historyOf(ticker).undo.length > 0
+  }
+
+  canRedo(ticker: string): boolean {
+    return this.historyOf(ticker).redo.length > 0
+  }
+
+  async undo(ticker: string, userId?: string): Promise<boolean> {
+    const history = this.historyOf(ticker)
+    const entry = history.undo.pop()
+    if (!entry) {
+      return false
+    }
+
+    try {
+      if (entry.kind === 'create') {
+        await this.remove(entry.id, userId)
+      } else if (entry.kind === 'update') {
+        await this.restore(entry.id, entry.before, userId)
+      } else {
+        await this.recreate(ticker, entry, userId)
+      }
+      history.redo.push(entry)
+      return true
+    } catch (error) {
+      console.error('[DrawingHistory] Failed to undo:', entry.kind, error)
+      history.undo.push(entry)
+      return false
+    }
+  }
+
+  async redo(ticker: string, userId?: string): Promise<boolean> {
+    const history = this.historyOf(ticker)
+    const entry = history.redo.pop()
+    if (!entry) {
+      return false
+    }
+
+    try {
+      if (entry.kind === 'create') {
+        await this.recreate(ticker, entry, userId)
+      } else if (entry.kind === 'update') {
+        await this.restore(entry.id, entry.after, userId)
+      } else {
+        await this.remove(entry.id, userId)
+      }
+      history.undo.push(entry)
+      return true
+    } catch (error) {
+      console.error('[DrawingHistory] Failed to redo:', entry.kind, error)
+      history.redo.push(entry)
+      return false
+    }
+  }
+
+  private async remove(id: string, userId?: string) {
+    const success = await database.deleteChartDrawing(id, userId)
+    if (!success) {
+      throw new Error(`Failed to delete drawing ${id}`)
+    }
+  }
+
+  private async restore(id: string, snapshot: DrawingSnapshot, userId?: string) {
+    const restored = await database.updateChartDrawing(id, { ...snapshot.data, timeframe: snapshot.timeframe }, userId)
+    if (!restored) {
+      throw new Error(`Failed to restore drawing ${id}`)
+    }
+  }
+
+  private async recreate(
+    ticker: string,
+    entry: Extract<DrawingHistoryEntry, { kind: 'create' | 'delete' }>,
+    userId?: string
+  ) {
+    const { snapshot } = entry
+    const saved = await database.saveChartDrawing(snapshot.ticker, snapshot.timeframe, snapshot.type, snapshot.data, userId)
+    if (!saved) {
+      throw new Error(`Failed to recreate drawing ${entry.id}`)
+    }
+    this.replaceId(ticker, entry.id, saved.id)
+    entry.id = saved.id
+  }
+}
+
+// シングルトンインスタンス
+export const drawingHistory = new DrawingHistory()
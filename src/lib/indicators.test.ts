@@ -0,0 +1,230 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateBollingerBands,
+  calculateEMA,
+  calculateIchimoku,
+  calculateMACD,
+  calculateRSI,
+  calculateSlowStochastics,
+  calculateSMA,
+  generateFutureTimes,
+  PriceBar
+} from './indicators'
+
+const DAY_SECONDS = 24 * 60 * 60
+
+// 終値の配列からバーを作る（高値・安値は終値 ±1）
+const barsFromCloses = (closes: number[]): PriceBar[] => {
+  return closes.map((close, index) => ({
+    time: index * DAY_SECONDS,
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close
+  }))
+}
+
+describe('calculateSMA', () => {
+  it('period 本そろうまで値を出さない', () => {
+    const result = calculateSMA(barsFromCloses([1, 2, 3, 4, 5]), 3)
+    expect(result.map(point => point.value)).toEqual([2, 3, 4])
+    expect(result[0].time).toBe(2 * DAY_SECONDS)
+  })
+
+  it('本数が足りなければ空', () => {
+    expect(calculateSMA(barsFromCloses([1, 2]), 3)).toEqual([])
+  })
+})
+
+describe('calculateEMA', () => {
+  it('最初の値を SMA で初期化し、以降は 2 / (period + 1) で平滑化する', () => {
+    const result = calculateEMA(barsFromCloses([1, 2, 3, 4, 5]), 3)
+    expect(result).toHaveLength(3)
+    expect(result[0].value).toBeCloseTo(2)
+    expect(result[1].value).toBeCloseTo(4 * 0.5 + 2 * 0.5)
+    expect(result[2].value).toBeCloseTo(5 * 0.5 + 3 * 0.5)
+  })
+})
+
+describe('calculateRSI', () => {
+  it('最初の値は period + 1 本目（変化が period 個そろった時点）', () => {
+    const bars = barsFromCloses([10, 11, 12, 13, 14])
+    expect(calculateRSI(bars, 4)).toHaveLength(1)
+    expect(calculateRSI(bars, 4)[0].time).toBe(bars[4].time)
+    expect(calculateRSI(bars, 5)).toEqual([])
+  })
+
+  it('ワイルダーの平滑化で平均値幅を更新する', () => {
+    // 変化: +2, -1, +1 | -2
+    const bars = barsFromCloses([10, 12, 11, 12, 10])
+    const result = calculateRSI(bars, 3)
+
+    const firstGain = 3 / 3
+    const firstLoss = 1 / 3
+    expect(result[0].value).toBeCloseTo(100 - 100 / (1 + firstGain / firstLoss))
+
+    const gain = (firstGain * 2 + 0) / 3
+    const loss = (firstLoss * 2 + 2) / 3
+    expect(result[1].value).toBeCloseTo(100 - 100 / (1 + gain / loss))
+  })
+
+  it('上昇のみなら 100、値動きがなければ 50', () => {
+    expect(calculateRSI(barsFromCloses([1, 2, 3, 4]), 3)[0].value).toBe(100)
+    expect(calculateRSI(barsFromCloses([5, 5, 5, 5]), 3)[0].value).toBe(50)
+  })
+})
+
+describe('calculateMACD', () => {
+  const closes = Array.from({ length: 60 }, (_, index) => 100 + Math.sin(index / 4) * 10 + index * 0.5)
+  const bars = barsFromCloses(closes)
+
+  it('MACD は長期EMA、シグナルはさらに signalPeriod 本そろってから始まる', () => {
+    const { macd, signal, histogram } = calculateMACD(bars, 12, 26, 9)
+    expect(macd).toHaveLength(bars.length - 25)
+    expect(macd[0].time).toBe(bars[25].time)
+    expect(signal).toHaveLength(macd.length - 8)
+    expect(signal[0].time).toBe(macd[8].time)
+    expect(histogram).toHaveLength(signal.length)
+  })
+
+  it('ヒストグラムは同じ時刻の MACD − シグナル', () => {
+    const { macd, signal, histogram } = calculateMACD(bars, 12, 26, 9)
+    const macdByTime = new Map(macd.map(point => [point.time, point.value]))
+
+    histogram.forEach((point, index) => {
+      expect(point.time).toBe(signal[index].time)
+      expect(point.value).toBeCloseTo(macdByTime.get(point.time)! - signal[index].value)
+    })
+  })
+
+  it('MACD は同じ時刻の短期EMA − 長期EMA', () => {
+    const { macd } = calculateMACD(bars, 12, 26, 9)
+    const fast = new Map(calculateEMA(bars, 12).map(point => [point.time, point.value]))
+    const slow = calculateEMA(bars, 26)
+
+    slow.forEach((point, index) => {
+      expect(macd[index].value).toBeCloseTo(fast.get(point.time)! - point.value)
+    })
+  })
+})
+
+describe('calculateSlowStochastics', () => {
+  it('%K は kPeriod + kSmoothing - 1 本目、%D はさらに dPeriod - 1 本後から', () => {
+    const bars = barsFromCloses(Array.from({ length: 30 }, (_, index) => 100 + (index % 7)))
+    const { k, d } = calculateSlowStochastics(bars, 14, 3, 3)
+    expect(k[0].time).toBe(bars[15].time)
+    expect(d[0].time).toBe(bars[17].time)
+    expect(k).toHaveLength(bars.length - 15)
+    expect(d).toHaveLength(k.length - 2)
+  })
+
+  it('高値と安値が同じ範囲では 50', () => {
+    const bars = Array.from({ length: 10 }, (_, index) => ({
+      time: index * DAY_SECONDS,
+      open: 100,
+      high: 100,
+      low: 100,
+      close: 100
+    }))
+    const { k, d } = calculateSlowStochastics(bars, 5, 3, 3)
+    expect(k.every(point => point.value === 50)).toBe(true)
+    expect(d.every(point => point.value === 50)).toBe(true)
+  })
+
+  it('終値が範囲の高値なら 100、安値なら 0', () => {
+    const rising = Array.from({ length: 8 }, (_, index) => ({
+      time: index * DAY_SECONDS,
+      open: index,
+      high: index,
+      low: index - 1,
+      close: index
+    }))
+    expect(calculateSlowStochastics(rising, 3, 1, 1).k.every(point => point.value === 100)).toBe(true)
+
+    const falling = rising.map(bar => ({ ...bar, high: -bar.low, low: -bar.high, close: -bar.high }))
+    expect(calculateSlowStochastics(falling, 3, 1, 1).k.every(point => point.value === 0)).toBe(true)
+  })
+})
+
+describe('generateFutureTimes', () => {
+  // 60分足の時刻は JST の日時を UTC として扱う
+  const jst = (value: string) => Date.parse(`${value}Z`) / 1000
+
+  it('60分足は昼休み・夜間・土日を飛ばして立会時間の足の開始時刻に進む', () => {
+    // 2024-01-05 は金曜日
+    const times = generateFutureTimes(jst('2024-01-05T11:00:00'), 6, '60m')
+    expect(times).toEqual([
+      jst('2024-01-05T12:30:00'),
+      jst('2024-01-05T13:30:00'),
+      jst('2024-01-05T14:30:00'),
+      jst('2024-01-08T09:00:00'),
+      jst('2024-01-08T10:00:00'),
+      jst('2024-01-08T11:00:00')
+    ])
+  })
+
+  it('日足は土日を飛ばす', () => {
+    const times = generateFutureTimes(jst('2024-01-05T00:00:00'), 2, '1D')
+    expect(times).toEqual([jst('2024-01-08T00:00:00'), jst('2024-01-09T00:00:00')])
+  })
+})
+
+describe('calculateIchimoku', () => {
+  const bars = barsFromCloses(Array.from({ length: 8 }, (_, index) => 100 + index))
+  const futureTimes = [8, 9, 10].map(index => index * DAY_SECONDS)
+
+  it('転換線・基準線は期間内の高値と安値の中値', () => {
+    const { conversion, base } = calculateIchimoku(bars, futureTimes, 2, 3, 4, 3)
+    // 高値 = 終値 + 1、安値 = 終値 - 1
+    expect(conversion[0]).toEqual({ time: bars[1].time, value: (102 + 99) / 2 })
+    expect(base[0]).toEqual({ time: bars[2].time, value: (103 + 99) / 2 })
+    expect(conversion).toHaveLength(bars.length - 1)
+    expect(base).toHaveLength(bars.length - 2)
+  })
+
+  it('先行スパンは displacement - 1 本先に描き、最終バー以降は futureTimes を使う', () => {
+    const { leadingSpanA, leadingSpanB } = calculateIchimoku(bars, futureTimes, 2, 3, 4, 3)
+    // 先行スパンA は基準線がそろう 3 本目（index 2）から、2 本先の index 4 に描く
+    expect(leadingSpanA[0].time).toBe(bars[4].time)
+    expect(leadingSpanA[0].value).toBeCloseTo(((103 + 100) / 2 + (103 + 99) / 2) / 2)
+    expect(leadingSpanB[0]).toEqual({ time: bars[5].time, value: (104 + 99) / 2 })
+    // 最後のバー（index 7）の先行スパンは 2 本先の将来の時刻
+    expect(leadingSpanA[leadingSpanA.length - 1].time).toBe(futureTimes[1])
+    expect(leadingSpanB[leadingSpanB.length - 1].time).toBe(futureTimes[1])
+  })
+
+  it('将来の時刻が足りない分の先行スパンは描かない', () => {
+    const { leadingSpanA } = calculateIchimoku(bars, futureTimes.slice(0, 1), 2, 3, 4, 3)
+    expect(leadingSpanA[leadingSpanA.length - 1].time).toBe(futureTimes[0])
+  })
+
+  it('遅行スパンは終値を displacement - 1 本前に描く', () => {
+    const { laggingSpan } = calculateIchimoku(bars, futureTimes, 2, 3, 4, 3)
+    expect(laggingSpan).toHaveLength(bars.length - 2)
+    expect(laggingSpan[0]).toEqual({ time: bars[0].time, value: bars[2].close })
+  })
+})
+
+describe('calculateBollingerBands', () => {
+  it('中心線は SMA、各バンドは中心線 ± sigma × 母標準偏差', () => {
+    const bars = barsFromCloses([2, 4, 4, 4, 5, 5, 7, 9])
+    const { middle, bands } = calculateBollingerBands(bars, 8, [1, 2])
+
+    // 平均 5、母標準偏差 2
+    expect(middle).toEqual([{ time: bars[7].time, value: 5 }])
+    expect(bands.map(band => band.sigma)).toEqual([1, 2])
+    expect(bands[0].upper[0].value).toBeCloseTo(7)
+    expect(bands[0].lower[0].value).toBeCloseTo(3)
+    expect(bands[1].upper[0].value).toBeCloseTo(9)
+    expect(bands[1].lower[0].value).toBeCloseTo(1)
+  })
+
+  it('値動きがなければバンドは中心線に重なる', () => {
+    const { middle, bands } = calculateBollingerBands(barsFromCloses([10, 10, 10, 10]), 3)
+    expect(middle).toHaveLength(2)
+    bands.forEach(band => {
+      expect(band.upper.map(point => point.value)).toEqual([10, 10])
+      expect(band.lower.map(point => point.value)).toEqual([10, 10])
+    })
+  })
+})
@@ -0,0 +1,412 @@
+// テクニカル指標の計算ロジック（UIに依存しない純粋関数）
+// 入力はチャートと同じ時系列順（古い→新しい）のバーを前提とする
+import type { MovingAverageType } from './types'
+
+export interface PriceBar {
+  time: number
+  open: number
+  high: number
+  low: number
+  close: number
+  volume?: number
+}
+
+export interface IndicatorPoint {
+  time: number
+  value: number
+}
+
+export interface MACDResult {
+  macd: IndicatorPoint[]
+  signal: IndicatorPoint[]
+  histogram: IndicatorPoint[]
+}
+
+export interface StochasticsResult {
+  k: IndicatorPoint[]
+  d: IndicatorPoint[]
+}
+
+const toClosePoints = (bars: PriceBar[]): IndicatorPoint[] => {
+  return bars.map(bar => ({ time: bar.time, value: bar.close }))
+}
+
+// 任意の系列に対する単純移動平均
+const smaOf = (points: IndicatorPoint[], period: number): IndicatorPoint[] => {
+  if (period <= 0 || points.length < period) {
+    return []
+  }
+
+  const result: IndicatorPoint[] = []
+  let sum = 0
+
+  for (let i = 0; i < points.length; i++) {
+    sum += points[i].value
+    if (i >= period) {
+      sum -= points[i - period].value
+    }
+    if (i >= period - 1) {
+      result.push({ time: points[i].time, value: sum / period })
+    }
+  }
+
+  return result
+}
+
+// 任意の系列に対する指数平滑移動平均（最初の値は SMA で初期化）
+const emaOf = (points: IndicatorPoint[], period: number): IndicatorPoint[] => {
+  if (period <= 0 || points.length < period) {
+    return []
+  }
+
+  const result: IndicatorPoint[] = []
+  const k = 2 / (period + 1)
+
+  let ema = 0
+  for (let i = 0; i < period; i++) {
+    ema += points[i].value
+  }
+  ema /= period
+  result.push({ time: points[period - 1].time, value: ema })
+
+  for (let i = period; i < points.length; i++) {
+    ema = points[i].value * k + ema * (1 - k)
+    result.push({ time: points[i].time, value: ema })
+  }
+
+  return result
+}
+
+// 単純移動平均
+export const calculateSMA = (bars: PriceBar[], period: number): IndicatorPoint[] => {
+  return smaOf(toClosePoints(bars), period)
+}
+
+// 指数平滑移動平均
+export const calculateEMA = (bars: PriceBar[], period: number): IndicatorPoint[] => {
+  return emaOf(toClosePoints(bars), period)
+}
+
+// 出来高の単純移動平均
+export const calculateVolumeSMA = (bars: PriceBar[], period: number): IndicatorPoint[] => {
+  return smaOf(bars.map(bar => ({ time: bar.time, value: bar.volume ?? 0 })), period)
+}
+
+export const calculateMovingAverage = (
+  bars: PriceBar[],
+  type: MovingAverageType,
+  period: number
+): IndicatorPoint[] => {
+  return type === 'EMA' ? calculateEMA(bars, period) : calculateSMA(bars, period)
+}
+
+// RSI（ワイルダーの平滑化）
+export const calculateRSI = (bars: PriceBar[], period = 14): IndicatorPoint[] => {
+  if (period <= 0 || bars.length <= period) {
+    return []
+  }
+
+  let avgGain = 0
+  let avgLoss = 0
+  for (let i = 1; i <= period; i++) {
+    const change = bars[i].close - bars[i - 1].close
+    avgGain += Math.max(change, 0)
+    avgLoss += Math.max(-change, 0)
+  }
+  avgGain /= period
+  avgLoss /= period
+
+  const toRSI = (gain: number, loss: number) => {
+    if (loss === 0) {
+      return gain === 0 ? 50 : 100
+    }
+    return 100 - 100 / (1 + gain / loss)
+  }
+
+  const result: IndicatorPoint[] = [{ time: bars[period].time, value: toRSI(avgGain, avgLoss) }]
+
+  for (let i = period + 1; i < bars.length; i++) {
+    const change = bars[i].close - bars[i - 1].close
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period
+    result.push({ time: bars[i].time, value: toRSI(avgGain, avgLoss) })
+  }
+
+  return result
+}
+
+// MACD（短期EMA − 長期EMA、シグナルはMACDのEMA）
+export const calculateMACD = (
+  bars: PriceBar[],
+  fastPeriod = 12,
+  slowPeriod = 26,
+  signalPeriod = 9
+): MACDResult => {
+  const fast = emaOf(toClosePoints(bars), fastPeriod)
+  const slow = emaOf(toClosePoints(bars), slowPeriod)
+  const fastByTime = new Map(fast.map(point => [point.time, point.value]))
+
+  const macd: IndicatorPoint[] = []
+  slow.forEach(point => {
+    const fastValue = fastByTime.get(point.time)
+    if (fastValue !== undefined) {
+      macd.push({ time: point.time, value: fastValue - point.value })
+    }
+  })
+
+  const signal = emaOf(macd, signalPeriod)
+  const macdByTime = new Map(macd.map(point => [point.time, point.value]))
+  const histogram = signal.map(point => ({
+    time: point.time,
+    value: (macdByTime.get(point.time) ?? 0) - point.value
+  }))
+
+  return { macd, signal, histogram }
+}
+
+// スローストキャスティクス（%K = ファスト%Kの平滑、%D = スロー%Kの平滑）
+export const calculateSlowStochastics = (
+  bars: PriceBar[],
+  kPeriod = 14,
+  kSmoothing = 3,
+  dPeriod = 3
+): StochasticsResult => {
+  if (kPeriod <= 0 || bars.length < kPeriod) {
+    return { k: [], d: [] }
+  }
+
+  const fastK: IndicatorPoint[] = []
+  for (let i = kPeriod - 1; i < bars.length; i++) {
+    let highest = -Infinity
+    let lowest = Infinity
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      highest = Math.max(highest, bars[j].high)
+      lowest = Math.min(lowest, bars[j].low)
+    }
+    const range = highest - lowest
+    fastK.push({
+      time: bars[i].time,
+      value: range === 0 ? 50 : ((bars[i].close - lowest) / range) * 100
+    })
+  }
+
+  const k = smaOf(fastK, kSmoothing)
+  const d = smaOf(k, dPeriod)
+
+  return { k, d }
+}
+
+export interface IchimokuResult {
+  conversion: IndicatorPoint[]
+  base: IndicatorPoint[]
+  leadingSpanA: IndicatorPoint[]
+  leadingSpanB: IndicatorPoint[]
+  laggingSpan: IndicatorPoint[]
+}
+
+export interface BollingerBand {
+  sigma: number
+  upper: IndicatorPoint[]
+  lower: IndicatorPoint[]
+}
+
+export interface BollingerBandsResult {
+  middle: IndicatorPoint[]
+  bands: BollingerBand[]
+}
+
+const DAY_SECONDS = 24 * 60 * 60
+
+// 60分足の各足の開始時刻（JST の 0時からの分。前場 9:00〜11:30、後場 12:30〜15:30）
+// 60分足の時刻は JST の日時を UTC として扱った値なので、そのまま日内の秒数として比べられる
+const SESSION_BAR_START_MINUTES = [9 * 60, 10 * 60, 11 * 60, 12 * 60 + 30, 13 * 60 + 30, 14 * 60 + 30]
+
+const isWeekend = (time: number) => {
+  const day = new Date(time * 1000).getUTCDay()
+  return day === 0 || day === 6
+}
+
+// 次の60分足の開始時刻（その日の立会時間が終わっていれば、次の平日の 9:00）
+const nextSessionBarTime = (time: number): number => {
+  const dayStart = Math.floor(time / DAY_SECONDS) * DAY_SECONDS
+  const next = SESSION_BAR_START_MINUTES
+    .map(minutes => dayStart + minutes * 60)
+    .find(start => start > time)
+  if (next !== undefined) {
+    return next
+  }
+
+  let nextDay = dayStart + DAY_SECONDS
+  while (isWeekend(nextDay)) {
+    nextDay += DAY_SECONDS
+  }
+  return nextDay + SESSION_BAR_START_MINUTES[0] * 60
+}
+
+// 最終バー以降の将来の時刻を生成（先行スパンの描画用）
+// 60分足は立会時間の足の開始時刻、日足は土日を除き、週足は7日毎、月足は月毎に進める
+export const generateFutureTimes = (lastTime: number, count: number, timeframe: string): number[] => {
+  const result: number[] = []
+  let current = lastTime
+
+  while (result.length < count) {
+    if (timeframe === '1W') {
+      current += 7 * DAY_SECONDS
+    } else if (timeframe === '1M') {
+      // 月末日をまたがないよう、翌月の日数で日付を丸める
+      const date = new Date(current * 1000)
+      const year = date.getUTCFullYear()
+      const month = date.getUTCMonth() + 1
+      const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+      current = Math.floor(Date.UTC(year, month, Math.min(date.getUTCDate(), daysInMonth)) / 1000)
+    } else if (timeframe === '60m') {
+      current = nextSessionBarTime(current)
+    } else {
+      current += DAY_SECONDS
+      if (isWeekend(current)) {
+        continue
+      }
+    }
+    result.push(current)
+  }
+
+  return result
+}
+
+const midpointOf = (bars: PriceBar[], endIndex: number, period: number): number | null => {
+  if (endIndex < period - 1) {
+    return null
+  }
+
+  let highest = -Infinity
+  let lowest = Infinity
+  for (let i = endIndex - period + 1; i <= endIndex; i++) {
+    highest = Math.max(highest, bars[i].high)
+    lowest = Math.min(lowest, bars[i].low)
+  }
+  return (highest + lowest) / 2
+}
+
+// 一目均衡表
+// 先行スパンは当日を含めて displacement 本目（= displacement - 1 本先）に、
+// 遅行スパンは同じ本数だけ過去に描画する。futureTimes は最終バー以降の時刻。
+export const calculateIchimoku = (
+  bars: PriceBar[],
+  futureTimes: number[],
+  conversionPeriod = 9,
+  basePeriod = 26,
+  spanBPeriod = 52,
+  displacement = 26
+): IchimokuResult => {
+  const shift = displacement - 1
+  const timeAt = (index: number): number | undefined => {
+    return index < bars.length ? bars[index].time : futureTimes[index - bars.length]
+  }
+
+  const result: IchimokuResult = {
+    conversion: [],
+    base: [],
+    leadingSpanA: [],
+    leadingSpanB: [],
+    laggingSpan: []
+  }
+
+  bars.forEach((bar, index) => {
+    const conversion = midpointOf(bars, index, conversionPeriod)
+    const base = midpointOf(bars, index, basePeriod)
+    const spanB = midpointOf(bars, index, spanBPeriod)
+
+    if (conversion !== null) {
+      result.conversion.push({ time: bar.time, value: conversion })
+    }
+    if (base !== null) {
+      result.base.push({ time: bar.time, value: base })
+    }
+
+    const leadingTime = timeAt(index + shift)
+    if (leadingTime !== undefined) {
+      if (conversion !== null && base !== null) {
+        result.leadingSpanA.push({ time: leadingTime, value: (conversion + base) / 2 })
+      }
+      if (spanB !== null) {
+        result.leadingSpanB.push({ time: leadingTime, value: spanB })
+      }
+    }
+
+    if (index - shift >= 0) {
+      result.laggingSpan.push({ time: bars[index - shift].time, value: bar.close })
+    }
+  })
+
+  return result
+}
+
+// ボリンジャーバンド（標準偏差は母標準偏差）
+export const calculateBollingerBands = (
+  bars: PriceBar[],
+  period = 20,
+  sigmas: number[] = [1, 2, 3]
+): BollingerBandsResult => {
+  const middle = calculateSMA(bars, period)
+  const bands: BollingerBand[] = sigmas.map(sigma => ({ sigma, upper: [], lower: [] }))
+
+  middle.forEach((point, index) => {
+    const endIndex = index + period - 1
+    let variance = 0
+    for (let i = endIndex - period + 1; i <= endIndex; i++) {
+      variance += (bars[i].close - point.value) ** 2
+    }
+    const deviation = Math.sqrt(variance / period)
+
+    bands.forEach(band => {
+      band.upper.push({ time: point.time, value: point.value + band.sigma * deviation })
+      band.lower.push({ time: point.time, value: point.value - band.sigma * deviation })
+    })
+  })
+
+  return { middle, bands }
+}
+
+// 平均足（Heikin-Ashi）
+// 終値 = 四本値の平均、始値 = 前の足の（始値 + 終値）/ 2（最初の足は実際の始値と終値の平均）
+export const calculateHeikinAshi = (bars: PriceBar[]): PriceBar[] => {
+  const result: PriceBar[] = []
+
+  bars.forEach((bar, index) => {
+    const close = (bar.open + bar.high + bar.low + bar.close) / 4
+    const open = index === 0
+      ? (bar.open + bar.close) / 2
+      : (result[index - 1].open + result[index - 1].close) / 2
+
+    result.push({
+      time: bar.time,
+      open,
+      high: Math.max(bar.high, open, close),
+      low: Math.min(bar.low, open, close),
+      close,
+      volume: bar.volume
+    })
+  })
+
+  return result
+}
+
+// RSライン（株価 ÷ ベンチマーク）。同じ時刻のバー同士で割り、最初の点を 100 として指数化する
+export const calculateRelativeStrengthLine = (bars: PriceBar[], benchmarkBars: PriceBar[]): IndicatorPoint[] => {
+  const benchmarkCloses = new Map(benchmarkBars.map(bar => [bar.time, bar.close]))
+  const ratios: IndicatorPoint[] = []
+
+  bars.forEach(bar => {
+    const benchmarkClose = benchmarkCloses.get(bar.time)
+    if (benchmarkClose !== undefined && benchmarkClose > 0) {
+      ratios.push({ time: bar.time, value: bar.close / benchmarkClose })
+    }
+  })
+
+  if (ratios.length === 0 || ratios[0].value === 0) {
+    return []
+  }
+
+  const base = ratios[0].value
+  return ratios.map(point => ({ time: point.time, value: (point.value / base) * 100 }))
+}
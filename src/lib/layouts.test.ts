@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_LAYOUT,
+  DEFAULT_LAYOUT_SETTINGS,
+  fitSlotsToPreset,
+  getPaneKey,
+  normalizeLayoutSettings
+} from './layouts'
+
+describe('normalizeLayoutSettings', () => {
+  it('保存された値がなければ標準レイアウト', () => {
+    expect(normalizeLayoutSettings(null)).toBe(DEFAULT_LAYOUT_SETTINGS)
+    expect(normalizeLayoutSettings({ layouts: 'broken' })).toBe(DEFAULT_LAYOUT_SETTINGS)
+    expect(normalizeLayoutSettings({ layouts: [] })).toBe(DEFAULT_LAYOUT_SETTINGS)
+  })
+
+  it('id やプリセットが不正なレイアウトは捨てる', () => {
+    const settings = normalizeLayoutSettings({
+      layouts: [
+        { name: 'id なし', preset: '2x2', slots: [] },
+        { id: 'unknown-preset', name: '不明', preset: '4x4', slots: [] },
+        { id: 'single', name: '1画面', preset: '1x1', slots: ['1W'] }
+      ],
+      activeLayoutId: 'single'
+    })
+
+    expect(settings).toEqual({
+      layouts: [{ id: 'single', name: '1画面', preset: '1x1', slots: ['1W'] }],
+      activeLayoutId: 'single'
+    })
+  })
+
+  it('ペインの内容をプリセットのペイン数に合わせ、不明な内容は日足にする', () => {
+    const settings = normalizeLayoutSettings({
+      layouts: [
+        { id: 'wide', name: '  左右  ', preset: '1x2', slots: ['60m', 'chart', 'notes'] },
+        { id: 'grid', name: '', preset: '1+3', slots: ['dashboard'] }
+      ],
+      activeLayoutId: 'wide'
+    })
+
+    expect(settings.layouts).toEqual([
+      { id: 'wide', name: '左右', preset: '1x2', slots: ['60m', '1D'] },
+      { id: 'grid', name: '無題', preset: '1+3', slots: ['dashboard', '1D', '1D', '1D'] }
+    ])
+  })
+
+  it('選択中のレイアウトがなければ先頭のレイアウトを選ぶ', () => {
+    const settings = normalizeLayoutSettings({
+      layouts: [
+        { id: 'first', name: 'A', preset: '1x1', slots: ['1D'] },
+        { id: 'second', name: 'B', preset: '1x1', slots: ['1M'] }
+      ],
+      activeLayoutId: 'deleted'
+    })
+
+    expect(settings.activeLayoutId).toBe('first')
+  })
+})
+
+describe('fitSlotsToPreset', () => {
+  it('ペインが増えた分は日足で補い、減った分は切り詰める', () => {
+    expect(fitSlotsToPreset(['1W'], '1x2')).toEqual(['1W', '1D'])
+    expect(fitSlotsToPreset(['1W', '1M', 'notes', 'dashboard'], '1x2')).toEqual(['1W', '1M'])
+  })
+})
+
+describe('getPaneKey', () => {
+  it('標準レイアウトの2x2は従来の位置名、それ以外はレイアウトごとのキー', () => {
+    expect(getPaneKey(DEFAULT_LAYOUT, 0)).toBe('top-left')
+    expect(getPaneKey(DEFAULT_LAYOUT, 3)).toBe('bottom-right')
+    expect(getPaneKey({ ...DEFAULT_LAYOUT, preset: '3x3' }, 3)).toBe(`${DEFAULT_LAYOUT.id}:3`)
+    expect(getPaneKey({ id: 'custom', name: 'A', preset: '2x2', slots: [] }, 0)).toBe('custom:0')
+  })
+})
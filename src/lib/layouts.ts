@@ -0,0 +1,103 @@
+// チャート画面のレイアウト（ペインの配置と、各ペインに表示する内容）
+import type { ChartLayout, LayoutPreset, LayoutSettings, PaneContent } from './types'
+
+// gridClass は .chart-grid に付けるクラス（ペインの並べ方は App.css で定義）
+export const LAYOUT_PRESETS: { value: LayoutPreset, label: string, slots: number, gridClass: string }[] = [
+  { value: '1x1', label: '1画面', slots: 1, gridClass: 'layout-1x1' },
+  { value: '1x2', label: '2画面（左右）', slots: 2, gridClass: 'layout-1x2' },
+  { value: '2x2', label: '4画面（2x2）', slots: 4, gridClass: 'layout-2x2' },
+  { value: '3x3', label: '9画面（3x3）', slots: 9, gridClass: 'layout-3x3' },
+  { value: '1+3', label: '大1＋小3', slots: 4, gridClass: 'layout-large-plus-3' }
+]
+
+export const PANE_CONTENT_LABELS: Record<PaneContent, string> = {
+  '60m': '60分足',
+  '1D': '日足',
+  '1W': '週足',
+  '1M': '月足',
+  ticker_list: '銘柄一覧',
+  notes: 'メモ',
+  dashboard: '指標ダッシュボード'
+}
+
+export const PANE_CONTENTS = Object.keys(PANE_CONTENT_LABELS) as PaneContent[]
+
+export const DEFAULT_LAYOUT_ID = 'default'
+
+// Ctrl+1〜9 で切り替えられるレイアウトの数（一覧の先頭から）
+export const MAX_LAYOUT_HOTKEYS = 9
+
+// 従来の固定レイアウト（左上: 日足、右上: 銘柄一覧、左下: 週足、右下: 月足）
+export const DEFAULT_LAYOUT: ChartLayout = {
+  id: DEFAULT_LAYOUT_ID,
+  name: '標準',
+  preset: '2x2',
+  slots: ['1D', 'ticker_list', '1W', '1M']
+}
+
+export const DEFAULT_LAYOUT_SETTINGS: LayoutSettings = {
+  layouts: [DEFAULT_LAYOUT],
+  activeLayoutId: DEFAULT_LAYOUT_ID
+}
+
+// 標準レイアウトの2x2は従来の位置名を使い、ペイン位置ごとの設定（表示スタイル）を引き継ぐ
+const LEGACY_PANE_POSITIONS = ['top-left', 'top-right', 'bottom-left', 'bottom-right']
+
+// ペイン位置ごとの設定やクロスヘア同期でペインを区別するキー
+export const getPaneKey = (layout: ChartLayout, index: number): string => {
+  if (layout.id === DEFAULT_LAYOUT_ID && layout.preset === '2x2') {
+    return LEGACY_PANE_POSITIONS[index]
+  }
+  return `${layout.id}:${index}`
+}
+
+export const getPresetSlotCount = (preset: LayoutPreset): number => {
+  return LAYOUT_PRESETS.find(option => option.value === preset)?.slots ?? 1
+}
+
+export const getLayoutGridClass = (preset: LayoutPreset): string => {
+  return LAYOUT_PRESETS.find(option => option.value === preset)?.gridClass ?? 'layout-2x2'
+}
+
+// プリセットのペイン数に合わせて内容を切り詰め・補う（増えたペインは日足）
+export const fitSlotsToPreset = (slots: PaneContent[], preset: LayoutPreset): PaneContent[] => {
+  return Array.from({ length: getPresetSlotCount(preset) }, (_, index) => slots[index] ?? '1D')
+}
+
+export const createLayoutId = (): string => {
+  return `layout-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+}
+
+const normalizeLayout = (value: any): ChartLayout | null => {
+  if (!value || typeof value.id !== 'string' || !LAYOUT_PRESETS.some(option => option.value === value.preset)) {
+    return null
+  }
+
+  const slots = Array.isArray(value.slots)
+    ? value.slots.map((slot: any) => (PANE_CONTENTS.includes(slot) ? slot : '1D'))
+    : []
+
+  return {
+    id: value.id,
+    name: typeof value.name === 'string' && value.name.trim() ? value.name.trim() : '無題',
+    preset: value.preset,
+    slots: fitSlotsToPreset(slots, value.preset)
+  }
+}
+
+// 保存されていたレイアウトを検証する。1つもなければ標準レイアウトに戻す
+export const normalizeLayoutSettings = (value: any): LayoutSettings => {
+  const layouts = Array.isArray(value?.layouts)
+    ? value.layouts.map(normalizeLayout).filter((layout: ChartLayout | null): layout is ChartLayout => layout !== null)
+    : []
+
+  if (layouts.length === 0) {
+    return DEFAULT_LAYOUT_SETTINGS
+  }
+
+  const activeLayoutId = layouts.some((layout: ChartLayout) => layout.id === value.activeLayoutId)
+    ? value.activeLayoutId
+    : layouts[0].id
+
+  return { layouts, activeLayoutId }
+}
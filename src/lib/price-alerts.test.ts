@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest'
+import { isPriceAlertTriggered } from './price-alerts'
+
+// 判定は純粋な関数なので、データベース接続は読み込まない
+vi.mock('./database', () => ({ database: {} }))
+
+const candle = (low: number, high: number, close: number) => ({ low, high, close })
+
+describe('isPriceAlertTriggered', () => {
+  it('上抜けは前日終値が水平線より下で、最新終値が水平線以上', () => {
+    expect(isPriceAlertTriggered('cross_up', 100, candle(98, 102, 101), 99)).toBe(true)
+    expect(isPriceAlertTriggered('cross_up', 100, candle(98, 102, 100), 99)).toBe(true)
+    expect(isPriceAlertTriggered('cross_up', 100, candle(98, 102, 99.9), 99)).toBe(false)
+    // 前日に水平線ちょうどで引けていれば、またいでいない
+    expect(isPriceAlertTriggered('cross_up', 100, candle(98, 102, 101), 100)).toBe(false)
+  })
+
+  it('下抜けは前日終値が水平線より上で、最新終値が水平線以下', () => {
+    expect(isPriceAlertTriggered('cross_down', 100, candle(98, 102, 99), 101)).toBe(true)
+    expect(isPriceAlertTriggered('cross_down', 100, candle(98, 102, 100), 101)).toBe(true)
+    expect(isPriceAlertTriggered('cross_down', 100, candle(98, 102, 100.1), 101)).toBe(false)
+    expect(isPriceAlertTriggered('cross_down', 100, candle(98, 102, 99), 100)).toBe(false)
+  })
+
+  it('前日の足がなければ上抜け・下抜けは判定しない', () => {
+    expect(isPriceAlertTriggered('cross_up', 100, candle(98, 102, 101), null)).toBe(false)
+    expect(isPriceAlertTriggered('cross_down', 100, candle(98, 102, 99), null)).toBe(false)
+  })
+
+  it('タッチは最新の足の高値〜安値に水平線が入ったか（端を含む）', () => {
+    expect(isPriceAlertTriggered('touch', 100, candle(98, 102, 99), null)).toBe(true)
+    expect(isPriceAlertTriggered('touch', 100, candle(100, 102, 101), null)).toBe(true)
+    expect(isPriceAlertTriggered('touch', 100, candle(95, 100, 96), null)).toBe(true)
+    expect(isPriceAlertTriggered('touch', 100, candle(100.5, 102, 101), 99)).toBe(false)
+  })
+})
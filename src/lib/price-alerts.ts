@@ -0,0 +1,119 @@
+// 水平線の価格アラート
+// データ更新後に、アラート付きの水平線を銘柄ごとの最新の日足終値と照合し、発火したものを受信箱に積む
+import { database } from './database'
+import type { StockPrice } from './supabase'
+import type { PriceAlertCondition, PriceAlertHit } from './types'
+
+export const PRICE_ALERT_LABELS: Record<PriceAlertCondition, string> = {
+  cross_up: '上抜け',
+  cross_down: '下抜け',
+  touch: 'タッチ'
+}
+
+// 上抜け・下抜けは前日終値→最新終値で水平線をまたいだか、タッチは最新の足の高値〜安値に水平線が入ったかで判定する
+export const isPriceAlertTriggered = (
+  condition: PriceAlertCondition,
+  price: number,
+  latest: Pick<StockPrice, 'high' | 'low' | 'close'>,
+  previousClose: number | null
+): boolean => {
+  switch (condition) {
+    case 'cross_up':
+      return previousClose !== null && previousClose < price && latest.close >= price
+    case 'cross_down':
+      return previousClose !== null && previousClose > price && latest.close <= price
+    case 'touch':
+      return latest.low <= price && price <= latest.high
+    default:
+      return false
+  }
+}
+
+class PriceAlertService {
+  private evaluating = new Map<string, Promise<PriceAlertHit[]>>()
+
+  // 新たに発火したアラートを返す（同じ水平線・同じ足では一度だけ発火する）
+  // データ更新の通知が続けて届いても、評価はユーザーごとに同時に1つだけ走らせる
+  evaluate(userId?: string): Promise<PriceAlertHit[]> {
+    const key = userId || 'guest'
+    let evaluating = this.evaluating.get(key)
+    if (!evaluating) {
+      evaluating = this.evaluateAll(userId).finally(() => {
+        this.evaluating.delete(key)
+      })
+      this.evaluating.set(key, evaluating)
+    }
+    return evaluating
+  }
+
+  private async evaluateAll(userId?: string): Promise<PriceAlertHit[]> {
+    const alertLines = await database.getPriceAlertDrawings(userId)
+    if (alertLines.length === 0) {
+      return []
+    }
+
+    const inbox = await database.getPriceAlertInbox(userId)
+    const firedIds = await database.getFiredPriceAlertIds(userId)
+    // 発火済みIDを記録する前の受信箱も、発火済みとして扱う
+    const knownIds = new Set([...firedIds, ...inbox.map(hit => hit.id)])
+    const hits: PriceAlertHit[] = []
+
+    for (const ticker of new Set(alertLines.map(line => line.ticker))) {
+      // getStockData は日付の降順で返す
+      const [latest, previous] = await database.getStockData(ticker, '1D', 2)
+      if (!latest) {
+        continue
+      }
+
+      alertLines
+        .filter(line => line.ticker === ticker)
+        .forEach(line => {
+          const price = Number(line.data.price)
+          const condition: PriceAlertCondition = line.data.alert
+          const id = `${line.id}_${latest.date}`
+          if (!Number.isFinite(price) || knownIds.has(id)) {
+            return
+          }
+          if (!isPriceAlertTriggered(condition, price, latest, previous ? previous.close : null)) {
+            return
+          }
+
+          hits.push({
+            id,
+            drawingId: line.id,
+            ticker,
+            condition,
+            price,
+            close: latest.close,
+            date: latest.date,
+            triggeredAt: new Date().toISOString(),
+            read: false
+          })
+        })
+    }
+
+    if (hits.length > 0) {
+      await database.savePriceAlertInbox(userId, [...hits, ...inbox])
+      await database.saveFiredPriceAlertIds(userId, [...hits.map(hit => hit.id), ...firedIds])
+      console.log(`[PriceAlerts] ${hits.length} alert(s) triggered`)
+    }
+    return hits
+  }
+
+  async getInbox(userId?: string): Promise<PriceAlertHit[]> {
+    return await database.getPriceAlertInbox(userId)
+  }
+
+  async markAllRead(userId?: string): Promise<PriceAlertHit[]> {
+    const inbox = await database.getPriceAlertInbox(userId)
+    return await database.savePriceAlertInbox(userId, inbox.map(hit => ({ ...hit, read: true })))
+  }
+
+  // 受信箱だけを消す（発火済みIDは残すので、同じ足では再通知しない）
+  async clear(userId?: string): Promise<PriceAlertHit[]> {
+    return await database.savePriceAlertInbox(userId, [])
+  }
+}
+
+// シングルトンインスタンス
+export const priceAlerts = new PriceAlertService()
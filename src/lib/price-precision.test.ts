@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_PRICE_PRECISION,
+  detectTickTableType,
+  getPricePrecision,
+  getTickSize,
+  roundToTick
+} from './price-precision'
+
+describe('getTickSize', () => {
+  it('標準の表は価格帯の上限ちょうどまでその帯の単位', () => {
+    expect(getTickSize(3000, 'standard')).toBe(1)
+    expect(getTickSize(3001, 'standard')).toBe(5)
+    expect(getTickSize(5000, 'standard')).toBe(5)
+    expect(getTickSize(5001, 'standard')).toBe(10)
+    expect(getTickSize(30000, 'standard')).toBe(10)
+    expect(getTickSize(30001, 'standard')).toBe(50)
+    expect(getTickSize(50000000, 'standard')).toBe(50000)
+    expect(getTickSize(50000001, 'standard')).toBe(100000)
+  })
+
+  it('細かい単位の表は 1,000円以下が 0.1円、3,000円以下が 0.5円', () => {
+    expect(getTickSize(999.9, 'fine')).toBe(0.1)
+    expect(getTickSize(1000, 'fine')).toBe(0.1)
+    expect(getTickSize(1000.5, 'fine')).toBe(0.5)
+    expect(getTickSize(3000, 'fine')).toBe(0.5)
+    expect(getTickSize(3001, 'fine')).toBe(1)
+    expect(getTickSize(10000, 'fine')).toBe(1)
+    expect(getTickSize(10001, 'fine')).toBe(5)
+    expect(getTickSize(30000001, 'fine')).toBe(10000)
+  })
+})
+
+describe('detectTickTableType', () => {
+  it('市場区分が ETF・ETN なら細かい単位の表', () => {
+    expect(detectTickTableType('ETF・ETN', [2500, 2510])).toBe('fine')
+    expect(detectTickTableType('etf', [])).toBe('fine')
+  })
+
+  it('それ以外は株価に端数があるかどうかで判断する', () => {
+    expect(detectTickTableType('プライム（内国株式）', [1500, 1501])).toBe('standard')
+    expect(detectTickTableType('プライム（内国株式）', [1500, 1500.5])).toBe('fine')
+    expect(detectTickTableType(undefined, [])).toBe('standard')
+  })
+})
+
+describe('getPricePrecision', () => {
+  it('最も安い価格の呼値から小数桁数を決める', () => {
+    expect(getPricePrecision(950, 'fine')).toEqual({ precision: 1, minMove: 0.1 })
+    expect(getPricePrecision(2500, 'fine')).toEqual({ precision: 1, minMove: 0.5 })
+    expect(getPricePrecision(2500, 'standard')).toEqual({ precision: 0, minMove: 1 })
+    expect(getPricePrecision(4000, 'standard')).toEqual({ precision: 0, minMove: 5 })
+  })
+
+  it('価格が 0 以下や有限でなければ既定値', () => {
+    expect(getPricePrecision(0, 'fine')).toEqual(DEFAULT_PRICE_PRECISION)
+    expect(getPricePrecision(Infinity, 'standard')).toEqual(DEFAULT_PRICE_PRECISION)
+  })
+})
+
+describe('roundToTick', () => {
+  it('価格帯の呼値の単位で最も近い価格に丸める', () => {
+    expect(roundToTick(2502.4, 'standard')).toBe(2502)
+    expect(roundToTick(4002.5, 'standard')).toBe(4005)
+    expect(roundToTick(4002.4, 'standard')).toBe(4000)
+    expect(roundToTick(12345, 'standard')).toBe(12350)
+  })
+
+  it('小数の呼値でも誤差が残らない', () => {
+    expect(roundToTick(123.46, 'fine')).toBe(123.5)
+    expect(roundToTick(0.3 + 0.6, 'fine')).toBe(0.9)
+    expect(roundToTick(1500.3, 'fine')).toBe(1500.5)
+    expect(roundToTick(1500.2, 'fine')).toBe(1500)
+  })
+
+  it('丸める単位は元の価格の帯で決まる', () => {
+    // 3,000円以下は 1円単位なので、帯の上限付近でも 5円単位には丸めない
+    expect(roundToTick(2999.6, 'standard')).toBe(3000)
+    expect(roundToTick(3003, 'standard')).toBe(3005)
+  })
+})
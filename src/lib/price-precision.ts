@@ -0,0 +1,88 @@
+// 株価の表示精度（東証の呼値の単位）
+// 呼値の単位は価格帯と銘柄区分で決まり、TOPIX500構成銘柄とETF・ETNは細かい単位の表を使う
+
+export type TickTableType = 'standard' | 'fine'
+
+interface TickBand {
+  upTo: number
+  tick: number
+}
+
+// TOPIX500構成銘柄以外の銘柄
+const STANDARD_TICK_TABLE: TickBand[] = [
+  { upTo: 3000, tick: 1 },
+  { upTo: 5000, tick: 5 },
+  { upTo: 30000, tick: 10 },
+  { upTo: 50000, tick: 50 },
+  { upTo: 300000, tick: 100 },
+  { upTo: 500000, tick: 500 },
+  { upTo: 3000000, tick: 1000 },
+  { upTo: 5000000, tick: 5000 },
+  { upTo: 30000000, tick: 10000 },
+  { upTo: 50000000, tick: 50000 },
+  { upTo: Infinity, tick: 100000 }
+]
+
+// TOPIX500構成銘柄・ETF・ETN
+const FINE_TICK_TABLE: TickBand[] = [
+  { upTo: 1000, tick: 0.1 },
+  { upTo: 3000, tick: 0.5 },
+  { upTo: 10000, tick: 1 },
+  { upTo: 30000, tick: 5 },
+  { upTo: 100000, tick: 10 },
+  { upTo: 300000, tick: 50 },
+  { upTo: 1000000, tick: 100 },
+  { upTo: 3000000, tick: 500 },
+  { upTo: 10000000, tick: 1000 },
+  { upTo: 30000000, tick: 5000 },
+  { upTo: Infinity, tick: 10000 }
+]
+
+const TICK_TABLES: Record<TickTableType, TickBand[]> = {
+  standard: STANDARD_TICK_TABLE,
+  fine: FINE_TICK_TABLE
+}
+
+export interface PricePrecision {
+  precision: number // 小数桁数
+  minMove: number // 呼値の単位
+}
+
+export const DEFAULT_PRICE_PRECISION: PricePrecision = { precision: 0, minMove: 1 }
+
+export const getTickSize = (price: number, table: TickTableType): number => {
+  const band = TICK_TABLES[table].find(({ upTo }) => price <= upTo)
+  return band ? band.tick : 1
+}
+
+const decimalsOf = (value: number): number => {
+  const text = value.toString()
+  const dot = text.indexOf('.')
+  return dot < 0 ? 0 : text.length - dot - 1
+}
+
+// ticker_master には TOPIX500 の構成情報がないため、市場区分で ETF・ETN を判別し、
+// それ以外は株価に端数があるかどうかで細かい単位の表の銘柄かを判断する
+export const detectTickTableType = (market: string | undefined, prices: number[]): TickTableType => {
+  if (market && /ETF|ETN/i.test(market)) {
+    return 'fine'
+  }
+  return prices.some(price => !Number.isInteger(price)) ? 'fine' : 'standard'
+}
+
+// 表示中で最も安い価格の呼値に合わせる（価格帯をまたいでも端数が消えないように）
+export const getPricePrecision = (lowestPrice: number, table: TickTableType): PricePrecision => {
+  if (!Number.isFinite(lowestPrice) || lowestPrice <= 0) {
+    return DEFAULT_PRICE_PRECISION
+  }
+  const minMove = getTickSize(lowestPrice, table)
+  return { precision: decimalsOf(minMove), minMove }
+}
+
+export const formatPrice = (price: number, precision: number): string => price.toFixed(precision)
+
+// 最も近い呼値の価格に丸める（小数の誤差が残らないよう呼値の桁数で切りそろえる）
+export const roundToTick = (price: number, table: TickTableType): number => {
+  const tick = getTickSize(price, table)
+  return Number((Math.round(price / tick) * tick).toFixed(decimalsOf(tick)))
+}
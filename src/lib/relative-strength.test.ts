@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest'
+import { calculateRsRatings } from './relative-strength'
+
+// レーティングの計算は純粋な関数なので、データベース接続は読み込まない
+vi.mock('./database', () => ({ database: {} }))
+
+const closes = (entries: Record<string, number>) => new Map(Object.entries(entries))
+
+describe('calculateRsRatings', () => {
+  it('合成スコアの順位を 1〜99 のパーセンタイルにする', () => {
+    const latest = closes({ A: 110, B: 100, C: 90 })
+    const past = [closes({ A: 100, B: 100, C: 100 }), closes({ A: 100, B: 100, C: 100 }), closes({ A: 100, B: 100, C: 100 })]
+
+    expect(calculateRsRatings(latest, past)).toEqual({ A: 99, B: 50, C: 1 })
+  })
+
+  it('直近3ヶ月の騰落率を2倍に重み付けする', () => {
+    // A: 3ヶ月 +10%（×2）、B: 12ヶ月 +15%
+    const latest = closes({ A: 110, B: 115 })
+    const past = [closes({ A: 100, B: 115 }), closes({ A: 110, B: 115 }), closes({ A: 110, B: 100 })]
+
+    expect(calculateRsRatings(latest, past)).toEqual({ A: 99, B: 1 })
+  })
+
+  it('いずれかの時点の終値がない銘柄は順位付けしない', () => {
+    const latest = closes({ A: 110, B: 100, C: 120 })
+    const past = [closes({ A: 100, B: 100 }), closes({ A: 100, B: 100, C: 100 }), closes({ A: 100, B: 0, C: 100 })]
+
+    expect(calculateRsRatings(latest, past)).toEqual({ A: 99 })
+  })
+
+  it('銘柄がなければ空', () => {
+    expect(calculateRsRatings(new Map(), [new Map(), new Map(), new Map()])).toEqual({})
+  })
+})
@@ -0,0 +1,115 @@
+// 相対力（RS）
+// RSレーティングは 3・6・12ヶ月の騰落率を合成したスコアを全銘柄で順位付けし、1〜99 のパーセンタイルで表す
+import { database } from './database'
+import type { TickerMaster } from './supabase'
+import type { RsRatings } from './types'
+
+// RSライン・RSレーティングのベンチマーク（TOPIX連動型ETF）
+export const RS_BENCHMARK_SYMBOL = '1306'
+
+const RS_PERIOD_MONTHS = [3, 6, 12]
+// 直近の四半期を重視する（3ヶ月: 2、6ヶ月: 1、12ヶ月: 1）
+const RS_PERIOD_WEIGHTS = [2, 1, 1]
+// 12ヶ月前の営業日を含むだけの日足を取得する
+const BENCHMARK_BAR_LIMIT = 270
+
+type ClosesByTicker = Map<string, number>
+
+// 各銘柄の騰落率を合成し、全銘柄中のパーセンタイル（1〜99）に変換する
+// latest: 最新の終値、past: RS_PERIOD_MONTHS の各時点の終値
+export const calculateRsRatings = (latest: ClosesByTicker, past: ClosesByTicker[]): RsRatings => {
+  const scores: { ticker: string, score: number }[] = []
+
+  latest.forEach((close, ticker) => {
+    let score = 0
+    for (let i = 0; i < past.length; i++) {
+      const pastClose = past[i].get(ticker)
+      if (pastClose === undefined || pastClose <= 0) {
+        return
+      }
+      score += RS_PERIOD_WEIGHTS[i] * (close / pastClose - 1)
+    }
+    scores.push({ ticker, score })
+  })
+
+  scores.sort((a, b) => a.score - b.score)
+
+  const ratings: RsRatings = {}
+  scores.forEach(({ ticker }, index) => {
+    const percentile = scores.length > 1 ? index / (scores.length - 1) : 1
+    ratings[ticker] = Math.max(1, Math.min(99, Math.round(percentile * 98) + 1))
+  })
+  return ratings
+}
+
+// 基準日から months ヶ月前以前で最も新しい営業日（dates は降順）
+const findDateMonthsBefore = (dates: string[], months: number): string | null => {
+  const target = new Date(dates[0])
+  target.setMonth(target.getMonth() - months)
+  return dates.find(date => new Date(date).getTime() <= target.getTime()) ?? null
+}
+
+class RelativeStrengthService {
+  private ratings: Promise<RsRatings> | null = null
+
+  // 日足の更新は1日1回のため、セッション中は一度だけ計算する
+  getRatings(tickers: TickerMaster[]): Promise<RsRatings> {
+    if (!this.ratings) {
+      this.ratings = this.calculate(tickers).catch(error => {
+        console.error('[RelativeStrength] Failed to calculate RS ratings:', error)
+        this.ratings = null
+        return {}
+      })
+    }
+    return this.ratings
+  }
+
+  private async calculate(tickers: TickerMaster[]): Promise<RsRatings> {
+    // 営業日はベンチマークの日足から求める
+    const benchmarkBars = await database.getStockData(RS_BENCHMARK_SYMBOL, '1D', BENCHMARK_BAR_LIMIT)
+    const dates = benchmarkBars.map(bar => bar.date)
+    if (dates.length === 0) {
+      return {}
+    }
+
+    const pastDates = RS_PERIOD_MONTHS.map(months => findDateMonthsBefore(dates, months))
+    if (pastDates.some(date => date === null)) {
+      console.warn('[RelativeStrength] Not enough benchmark history for RS ratings')
+      return {}
+    }
+
+    // stock_prices_all は5桁コード（4桁コード + '0'）のため、ticker_master の銘柄コードに戻す
+    const symbolsByTicker = new Map<string, string>()
+    tickers.forEach(ticker => {
+      symbolsByTicker.set(ticker.symbol, ticker.symbol)
+      if (ticker.symbol.length === 4) {
+        symbolsByTicker.set(ticker.symbol + '0', ticker.symbol)
+      }
+    })
+
+    const loadCloses = async (date: string): Promise<ClosesByTicker> => {
+      const closes: ClosesByTicker = new Map()
+      const rows = await database.getClosesOnDate(date)
+      rows.forEach(row => {
+        const symbol = symbolsByTicker.get(row.ticker)
+        if (symbol && Number.isFinite(Number(row.close))) {
+          closes.set(symbol, Number(row.close))
+        }
+      })
+      return closes
+    }
+
+    const latest = await loadCloses(dates[0])
+    const past: ClosesByTicker[] = []
+    for (const date of pastDates as string[]) {
+      past.push(await loadCloses(date))
+    }
+
+    const ratings = calculateRsRatings(latest, past)
+    console.log(`[RelativeStrength] Calculated RS ratings for ${Object.keys(ratings).length} tickers`)
+    return ratings
+  }
+}
+
+// シングルトンインスタンス
+export const relativeStrength = new RelativeStrengthService()
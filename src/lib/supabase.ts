@@ -26,7 +26,7 @@ export interface StockPrice {
   id: string
   ticker: string
   date: string
-  timeframe: '1D' | '1W' | '1M' | '4H' | '1H'
+  timeframe: '60m' | '1D' | '1W' | '1M' | '4H' | '1H'
   open: number
   high: number
   low: number
@@ -67,8 +67,8 @@ export interface ChartDrawing {
   id: string
   user_id: string
   ticker: string
-  timeframe: '1D' | '1W' | '1M' | '4H' | '1H'
-  type: 'horizontal_line' | 'trend_line' | 'rectangle' | 'text'
+  timeframe: '60m' | '1D' | '1W' | '1M' | '4H' | '1H'
+  type: 'horizontal_line' | 'trend_line' | 'rectangle' | 'text' | 'fibonacci'
   data: Record<string, any>
   created_at: string
   updated_at: string
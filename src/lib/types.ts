@@ -1,4 +1,77 @@
 export interface HorizontalLineSettings {
   color: string;
   width: number;
+  snapToTick?: boolean; // 水平線の価格を呼値の単位に合わせる
+  magnet?: boolean; // 近くのバーの始値・高値・安値・終値に吸着させる
+}
+
+export type MovingAverageType = 'SMA' | 'EMA';
+
+export interface MovingAverageConfig {
+  type: MovingAverageType;
+  period: number;
+  color: string;
+  enabled: boolean;
+}
+
+// 時間足ごとの移動平均設定（'1D' | '1W' | '1M' | '60m' をキーとする）
+export type MovingAverageSettings = Record<string, MovingAverageConfig[]>;
+
+// ローソク足の下に表示するオシレーター
+export type OscillatorType = 'none' | 'rsi' | 'macd' | 'stochastics' | 'rs_line';
+
+// ペイン（getPaneKey のキー）ごとのオシレーター選択。以前の時間足キー（'1D' など）の値も残っている
+export type OscillatorSettings = Record<string, OscillatorType>;
+
+// ローソク足に重ねて表示するオーバーレイ指標
+export type PriceOverlayType = 'ichimoku' | 'bollinger';
+
+// 時間足ごとの有効なオーバーレイ
+export type PriceOverlaySettings = Record<string, PriceOverlayType[]>;
+
+// 銘柄ごとのRSレーティング（1〜99、全銘柄中の騰落率のパーセンタイル）
+export type RsRatings = Record<string, number>;
+
+// ローソク足ペインの表示スタイル（ローソク足／平均足／終値ライン／エリア／バー）
+export type ChartStyle = 'candlestick' | 'heikin_ashi' | 'line' | 'area' | 'bar';
+
+// ペイン位置（'top-left' など）ごとの表示スタイル
+export type ChartStyleSettings = Record<string, ChartStyle>;
+
+// ペインに割り当てられる時間足
+export type PaneTimeFrame = '60m' | '1D' | '1W' | '1M';
+
+// ペインの配置（1画面／左右2画面／2x2／3x3／大きいペイン1つ＋小さいペイン3つ）
+export type LayoutPreset = '1x1' | '1x2' | '2x2' | '3x3' | '1+3';
+
+// ペインに表示する内容（時間足のチャート／銘柄一覧／メモ／指標ダッシュボード）
+export type PaneContent = PaneTimeFrame | 'ticker_list' | 'notes' | 'dashboard';
+
+// 名前を付けて保存するレイアウト。slots はプリセットのペイン順（左上から右へ、上から下へ）
+export interface ChartLayout {
+  id: string;
+  name: string;
+  preset: LayoutPreset;
+  slots: PaneContent[];
+}
+
+export interface LayoutSettings {
+  layouts: ChartLayout[];
+  activeLayoutId: string;
+}
+
+// 水平線に設定できる価格アラート（上抜け／下抜け／タッチ）
+export type PriceAlertCondition = 'cross_up' | 'cross_down' | 'touch';
+
+// 発火したアラート（アラート受信箱に表示する）
+export interface PriceAlertHit {
+  id: string;
+  drawingId: string;
+  ticker: string;
+  condition: PriceAlertCondition;
+  price: number;
+  close: number;
+  date: string;
+  triggeredAt: string;
+  read: boolean;
 }
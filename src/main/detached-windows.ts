@@ -0,0 +1,159 @@
+import { app, BrowserWindow, Rectangle, screen } from 'electron';
+import path from 'path';
+import fs from 'fs';
+
+// 別ウィンドウに切り出したチャート（次回起動時に同じディスプレイ・位置・時間足で開き直す）
+export interface DetachedWindowState {
+  id: string;
+  timeFrame: string;
+  displayId: number;
+  bounds: Rectangle;
+}
+
+const DEFAULT_WIDTH = 900;
+const DEFAULT_HEIGHT = 600;
+
+export class DetachedWindowManager {
+  private windows: Map<string, BrowserWindow> = new Map();
+  private states: Map<string, DetachedWindowState> = new Map();
+  private statePath: string;
+  // アプリ終了・メインウィンドウを閉じたときは、開いていたウィンドウを次回のために残す
+  private isClosingAll = false;
+
+  constructor(private loadRenderer: (window: BrowserWindow, query: Record<string, string>) => void) {
+    this.statePath = path.join(app.getPath('userData'), 'detached-windows.json');
+    this.loadStates().forEach(state => this.states.set(state.id, state));
+  }
+
+  private loadStates(): DetachedWindowState[] {
+    try {
+      if (!fs.existsSync(this.statePath)) {
+        return [];
+      }
+      const states = JSON.parse(fs.readFileSync(this.statePath, 'utf-8'));
+      return Array.isArray(states) ? states : [];
+    } catch (error) {
+      console.error('[DetachedWindows] Failed to load window states:', error);
+      return [];
+    }
+  }
+
+  private saveStates() {
+    try {
+      fs.writeFileSync(this.statePath, JSON.stringify(Array.from(this.states.values()), null, 2));
+    } catch (error) {
+      console.error('[DetachedWindows] Failed to save window states:', error);
+    }
+  }
+
+  // 保存した位置のディスプレイが外されていたら、メインのディスプレイの中央に開く
+  private resolveBounds(state?: DetachedWindowState, parent?: BrowserWindow | null): Rectangle {
+    const displays = screen.getAllDisplays();
+    if (state && displays.some(display => display.id === state.displayId)) {
+      return state.bounds;
+    }
+
+    // 新しく切り出すときは、メインウィンドウのないディスプレイがあればそちらに開く
+    const parentDisplay = parent ? screen.getDisplayMatching(parent.getBounds()) : screen.getPrimaryDisplay();
+    const target = displays.find(display => display.id !== parentDisplay.id) ?? parentDisplay;
+    const { x, y, width, height } = target.workArea;
+    return {
+      x: Math.round(x + (width - DEFAULT_WIDTH) / 2),
+      y: Math.round(y + (height - DEFAULT_HEIGHT) / 2),
+      width: DEFAULT_WIDTH,
+      height: DEFAULT_HEIGHT
+    };
+  }
+
+  private updateState(id: string, window: BrowserWindow, updates: Partial<DetachedWindowState> = {}) {
+    const state = this.states.get(id);
+    if (!state || window.isDestroyed()) {
+      return;
+    }
+    const bounds = window.getBounds();
+    this.states.set(id, {
+      ...state,
+      ...updates,
+      bounds,
+      displayId: screen.getDisplayMatching(bounds).id
+    });
+    this.saveStates();
+  }
+
+  open(timeFrame: string, ticker: string, parent: BrowserWindow | null, existing?: DetachedWindowState): string {
+    const id = existing?.id ?? `detached-${Date.now().toString(36)}`;
+    const bounds = this.resolveBounds(existing, parent);
+
+    const window = new BrowserWindow({
+      ...bounds,
+      minWidth: 400,
+      minHeight: 300,
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        preload: path.join(__dirname, 'preload.js')
+      },
+      show: false
+    });
+
+    this.windows.set(id, window);
+    this.states.set(id, {
+      id,
+      timeFrame,
+      bounds,
+      displayId: screen.getDisplayMatching(bounds).id
+    });
+    this.saveStates();
+
+    this.loadRenderer(window, { detached: id, timeFrame, ticker });
+
+    window.once('ready-to-show', () => window.show());
+    window.on('moved', () => this.updateState(id, window));
+    window.on('resized', () => this.updateState(id, window));
+    window.on('closed', () => {
+      this.windows.delete(id);
+      // ユーザーが閉じたウィンドウは次回開き直さない
+      if (!this.isClosingAll) {
+        this.states.delete(id);
+        this.saveStates();
+      }
+    });
+
+    console.log(`[DetachedWindows] Opened ${id} (${timeFrame})`);
+    return id;
+  }
+
+  // 前回開いていたウィンドウを開き直す
+  restore(parent: BrowserWindow | null) {
+    this.isClosingAll = false;
+    Array.from(this.states.values())
+      .filter(state => !this.windows.has(state.id))
+      .forEach(state => this.open(state.timeFrame, '', parent, state));
+  }
+
+  setTimeFrame(id: string, timeFrame: string) {
+    const window = this.windows.get(id);
+    if (window) {
+      this.updateState(id, window, { timeFrame });
+    }
+  }
+
+  // 閉じたあとの 'closed' イベントでも状態を消さないよう、次に restore するまでフラグを立てたままにする
+  closeAll() {
+    this.isClosingAll = true;
+    this.windows.forEach(window => {
+      if (!window.isDestroyed()) {
+        window.close();
+      }
+    });
+  }
+
+  // 送信元以外のすべてのウィンドウ（メインウィンドウを含む）に同期イベントを転送する
+  broadcast(sender: Electron.WebContents, channel: string, payload: unknown) {
+    BrowserWindow.getAllWindows().forEach(window => {
+      if (!window.isDestroyed() && window.webContents !== sender) {
+        window.webContents.send(channel, payload);
+      }
+    });
+  }
+}
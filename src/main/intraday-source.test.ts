@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateToSessionBars, IntradayBar } from './intraday-source';
+
+const minuteBar = (datetime: string, price: number, volume = 10): IntradayBar => ({
+  datetime,
+  open: price,
+  high: price + 1,
+  low: price - 1,
+  close: price,
+  volume
+});
+
+describe('aggregateToSessionBars', () => {
+  it('立会時間に合わせて 9:00 / 10:00 / 11:00 / 12:30 / 13:30 / 14:30 の足にまとめる', () => {
+    const bars = [
+      '09:00', '09:59', '10:00', '11:00', '11:29', '12:30', '13:29', '13:30', '14:30', '15:29'
+    ].map((time, index) => minuteBar(`2024-01-10 ${time}`, 100 + index));
+
+    expect(aggregateToSessionBars(bars).map(bar => bar.timestamp)).toEqual([
+      '2024-01-10T09:00:00+09:00',
+      '2024-01-10T10:00:00+09:00',
+      '2024-01-10T11:00:00+09:00',
+      '2024-01-10T12:30:00+09:00',
+      '2024-01-10T13:30:00+09:00',
+      '2024-01-10T14:30:00+09:00'
+    ]);
+  });
+
+  it('引けの約定（11:30・15:30）はその場の最後の足に含め、立会時間外は捨てる', () => {
+    const bars = [
+      minuteBar('2024-01-10 08:59', 90),
+      minuteBar('2024-01-10 11:29', 100),
+      minuteBar('2024-01-10 11:30', 101),
+      minuteBar('2024-01-10 12:00', 95),
+      minuteBar('2024-01-10 15:00', 110),
+      minuteBar('2024-01-10 15:30', 112),
+      minuteBar('2024-01-10 15:31', 120)
+    ];
+
+    const result = aggregateToSessionBars(bars);
+    expect(result.map(bar => bar.timestamp)).toEqual([
+      '2024-01-10T11:00:00+09:00',
+      '2024-01-10T14:30:00+09:00'
+    ]);
+    expect(result[0].close).toBe(101);
+    expect(result[1].close).toBe(112);
+  });
+
+  it('四本値と出来高を時刻順にまとめる', () => {
+    const bars = [
+      minuteBar('2024-01-10 09:30', 105, 20),
+      minuteBar('2024-01-10 09:00', 100, 10),
+      minuteBar('2024-01-10 09:59', 98, 30)
+    ];
+
+    expect(aggregateToSessionBars(bars)).toEqual([{
+      timestamp: '2024-01-10T09:00:00+09:00',
+      open: 100,
+      high: 106,
+      low: 97,
+      close: 98,
+      volume: 60
+    }]);
+  });
+});
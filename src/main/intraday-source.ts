@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+
+// 分足などの日中足（日時は JST）
+export interface IntradayBar {
+  datetime: string; // 'YYYY-MM-DD HH:mm'（JST、足の開始時刻）
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// 日中足の取得元。J-Quants の日足APIには日中足がないため、取得元を差し替えられるようにする
+export interface IntradayBarSource {
+  readonly name: string;
+  fetchBars(ticker: string, fromDate: string, toDate: string): Promise<IntradayBar[]>;
+}
+
+// 東証の立会時間（分単位、JST）。前場 9:00〜11:30、後場 12:30〜15:30
+// 引けの板寄せの約定（11:30, 15:30）はその場の最後の60分足に含める
+const TSE_SESSIONS = [
+  { start: 9 * 60, end: 11 * 60 + 30 },
+  { start: 12 * 60 + 30, end: 15 * 60 + 30 }
+];
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// 分足が属する60分足の開始時刻（分）。昼休みや立会時間外の分足は null
+// 後場は 12:30 起点で区切るため、60分足は 9:00 / 10:00 / 11:00(30分) / 12:30 / 13:30 / 14:30 になる
+const getSessionBucketStart = (minutes: number): number | null => {
+  const session = TSE_SESSIONS.find(({ start, end }) => minutes >= start && minutes <= end);
+  if (!session) {
+    return null;
+  }
+  const offset = Math.min(minutes, session.end - 1) - session.start;
+  return session.start + Math.floor(offset / 60) * 60;
+};
+
+// 分足を東証の立会時間に合わせた60分足にまとめる
+// timestamp は '+09:00' 付きの ISO 8601 形式（SQLite の stock_data にそのまま保存できる）
+export const aggregateToSessionBars = (bars: IntradayBar[]) => {
+  const sorted = [...bars].sort((a, b) => a.datetime.localeCompare(b.datetime));
+  const buckets = new Map<string, IntradayBar[]>();
+
+  sorted.forEach(bar => {
+    const [date, time] = bar.datetime.split(' ');
+    const bucketStart = time ? getSessionBucketStart(toMinutes(time)) : null;
+    if (bucketStart === null) {
+      return;
+    }
+
+    const timestamp = `${date}T${pad(Math.floor(bucketStart / 60))}:${pad(bucketStart % 60)}:00+09:00`;
+    const bucket = buckets.get(timestamp);
+    if (bucket) {
+      bucket.push(bar);
+    } else {
+      buckets.set(timestamp, [bar]);
+    }
+  });
+
+  return Array.from(buckets.entries()).map(([timestamp, bucket]) => ({
+    timestamp,
+    open: bucket[0].open,
+    high: Math.max(...bucket.map(bar => bar.high)),
+    low: Math.min(...bucket.map(bar => bar.low)),
+    close: bucket[bucket.length - 1].close,
+    volume: bucket.reduce((sum, bar) => sum + bar.volume, 0)
+  }));
+};
+
+// INTRADAY_CSV_DIR 配下の `<銘柄コード>.csv` から分足を読み込む
+// CSV は `datetime,open,high,low,close,volume` のヘッダー付きで、datetime は JST の 'YYYY-MM-DD HH:mm'
+export class CsvIntradayBarSource implements IntradayBarSource {
+  readonly name = 'csv';
+
+  constructor(private directory: string) {}
+
+  async fetchBars(ticker: string, fromDate: string, toDate: string): Promise<IntradayBar[]> {
+    const filePath = path.join(this.directory, `${ticker}.csv`);
+    if (!fs.existsSync(filePath)) {
+      console.log(`No intraday CSV found for ${ticker}: ${filePath}`);
+      return [];
+    }
+
+    const lines = fs.readFileSync(filePath, 'utf-8').split(/\r?\n/).slice(1);
+    return lines
+      .map(line => line.split(','))
+      .filter(columns => columns.length >= 6)
+      .map(([datetime, open, high, low, close, volume]) => ({
+        datetime: datetime.trim().replace('T', ' ').slice(0, 16),
+        open: Number(open),
+        high: Number(high),
+        low: Number(low),
+        close: Number(close),
+        volume: Number(volume) || 0
+      }))
+      .filter(bar =>
+        bar.datetime.slice(0, 10) >= fromDate &&
+        bar.datetime.slice(0, 10) <= toDate &&
+        [bar.open, bar.high, bar.low, bar.close].every(Number.isFinite)
+      );
+  }
+}
+
+// 環境変数から日中足の取得元を作る。未設定の場合は null（60分足は取得しない）
+export const createIntradayBarSource = (): IntradayBarSource | null => {
+  const directory = process.env.INTRADAY_CSV_DIR;
+  return directory ? new CsvIntradayBarSource(directory) : null;
+};
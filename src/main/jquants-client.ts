@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { DatabaseManager } from './database';
+import { aggregateToSessionBars, createIntradayBarSource, IntradayBarSource } from './intraday-source';
 
 interface JQuantsStock {
   Date: string;
@@ -38,6 +39,9 @@ interface JQuantsPriceData {
 }
 
 
+// 60分足として保存する日中足の期間（日数）
+const INTRADAY_LOOKBACK_DAYS = 60;
+
 export class JQuantsClient {
   private baseUrl = 'https://api.jquants.com/v1';
   private idToken: string | null = null;
@@ -47,9 +51,12 @@ export class JQuantsClient {
   private rateLimitResetTime: number = 0;
   private readonly REQUEST_INTERVAL = 1200; // 1.2秒間隔（安全マージン込み）
   
-  constructor() {
+  private intradaySource: IntradayBarSource | null;
+  
+  constructor(intradaySource: IntradayBarSource | null = createIntradayBarSource()) {
     this.email = process.env.JQUANTS_EMAIL || '';
     this.password = process.env.JQUANTS_PASSWORD || '';
+    this.intradaySource = intradaySource;
   }
   
   private async waitForRateLimit(): Promise<void> {
@@ -509,6 +516,46 @@ export class JQuantsClient {
     }
   }
 
+  // 日中足の取得元から分足を取得し、東証の立会時間に合わせた60分足として保存する
+  async fetchAndStoreIntradayData(ticker: string, db: DatabaseManager): Promise<boolean> {
+    if (!this.intradaySource) {
+      return false;
+    }
+
+    try {
+      const toDate = new Date();
+      const fromDate = new Date();
+      fromDate.setDate(toDate.getDate() - INTRADAY_LOOKBACK_DAYS);
+
+      console.log(`Fetching intraday data for ${ticker} from ${this.intradaySource.name} source...`);
+      const minuteBars = await this.intradaySource.fetchBars(
+        ticker,
+        fromDate.toISOString().split('T')[0],
+        toDate.toISOString().split('T')[0]
+      );
+
+      const hourlyStockData = aggregateToSessionBars(minuteBars).map(candle => ({
+        ticker: ticker,
+        timeframe: '60m' as '60m' | '1D' | '1W' | '1M',
+        ...candle
+      }));
+
+      if (hourlyStockData.length === 0) {
+        console.log(`No intraday data found for ${ticker}`);
+        return false;
+      }
+
+      // 取得期間より前の足を残すため、クリアせずに (ticker, timestamp, timeframe) で上書き保存する
+      db.insertStockData(hourlyStockData);
+      console.log(`Stored ${hourlyStockData.length} 60-minute candles for ${ticker}`);
+
+      return true;
+    } catch (error) {
+      console.error(`Failed to fetch and store intraday data for ${ticker}:`, error);
+      return false;
+    }
+  }
+
   close() {
     // クリーンアップが必要な場合はここで実行
     console.log('J-Quants client closed');
@@ -1,15 +1,18 @@
-import { app, BrowserWindow, ipcMain, Menu, shell } from 'electron';
+import { app, BrowserWindow, ipcMain, Menu, Notification, shell } from 'electron';
 import path from 'path';
 import { DatabaseManager } from './database';
 import { JQuantsClient } from './jquants-client';
+import { DetachedWindowManager } from './detached-windows';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
 
 class StockChartApp {
   private mainWindow: BrowserWindow | null = null;
+  private detachedWindows: DetachedWindowManager | null = null;
   private db: DatabaseManager;
-  private fetchQueue: Set<string> = new Set();
+  // 銘柄ごとに、取得が必要なデータ（日足・週足・月足は J-Quants、60分足は日中足の取得元）を積む
+  private fetchQueue: Map<string, Set<'daily' | 'intraday'>> = new Map();
   private isProcessingQueue: boolean = false;
 
   constructor() {
@@ -33,6 +36,7 @@ class StockChartApp {
 
     app.whenReady().then(() => {
       Menu.setApplicationMenu(null);
+      this.detachedWindows = new DetachedWindowManager((window, query) => this.loadRenderer(window, query));
       this.createMainWindow();
       this.setupIpcHandlers();
     });
@@ -51,6 +55,8 @@ class StockChartApp {
     });
 
     app.on('before-quit', () => {
+      // 開いている別ウィンドウは次回起動時に開き直す
+      this.detachedWindows?.closeAll();
       this.cleanup();
     });
 
@@ -93,20 +99,17 @@ class StockChartApp {
       show: false
     });
 
-    // 開発環境かプロダクション環境かで読み込むファイルを分ける
-    if (process.env.NODE_ENV === 'development') {
-      this.mainWindow.loadURL('http://localhost:3000');
-      this.mainWindow.webContents.openDevTools();
-    } else {
-      this.mainWindow.loadFile(path.join(__dirname, 'renderer', 'index.html'));
-    }
+    this.loadRenderer(this.mainWindow);
 
     this.mainWindow.once('ready-to-show', () => {
       this.mainWindow?.show();
+      this.detachedWindows?.restore(this.mainWindow);
     });
 
     this.mainWindow.on('closed', () => {
       this.mainWindow = null;
+      // メインウィンドウと一緒に別ウィンドウも閉じる（次回起動時に開き直す）
+      this.detachedWindows?.closeAll();
     });
 
     // 外部リンクを既定のブラウザで開く（OAuth認証用）
@@ -136,6 +139,18 @@ class StockChartApp {
     });
   }
 
+  // 開発環境かプロダクション環境かで読み込むファイルを分ける
+  // 別ウィンドウはクエリ（detached, timeFrame, ticker）でチャート1枚の画面として開く
+  private loadRenderer(window: BrowserWindow, query: Record<string, string> = {}) {
+    if (process.env.NODE_ENV === 'development') {
+      const search = new URLSearchParams(query).toString();
+      window.loadURL(`http://localhost:3000${search ? `?${search}` : ''}`);
+      window.webContents.openDevTools();
+    } else {
+      window.loadFile(path.join(__dirname, 'renderer', 'index.html'), { query });
+    }
+  }
+
   private setupIpcHandlers() {
     // Ticker operations
     ipcMain.handle('get-all-tickers', async () => {
@@ -171,7 +186,7 @@ class StockChartApp {
         console.log(`No data found for ${ticker} ${timeframe}. Adding to fetch queue...`);
         
         // すぐにはAPIを呼ばず、後で一括取得するためのキューに追加
-        this.addToFetchQueue(ticker);
+        this.addToFetchQueue(ticker, timeframe);
         
         // 現時点では空配列を返すか、代替データを返す
         return [];
@@ -182,6 +197,10 @@ class StockChartApp {
       return data || [];
     });
 
+    ipcMain.handle('get-stock-data-by-date-range', async (_, ticker: string, timeframe: string, fromDate: string, toDate: string) => {
+      return this.db.getStockDataByDateRange(ticker, timeframe, fromDate, toDate);
+    });
+
     ipcMain.handle('insert-stock-data', async (_, data) => {
       return this.db.insertStockData(data);
     });
@@ -196,8 +215,23 @@ class StockChartApp {
     ipcMain.handle('update-stock-data', async (_, ticker: string) => {
       const jquantsClient = new JQuantsClient();
       const success = await jquantsClient.fetchAndStoreStockData(ticker, this.db);
+      const intradaySuccess = await jquantsClient.fetchAndStoreIntradayData(ticker, this.db);
       jquantsClient.close();
-      return success;
+      return success || intradaySuccess;
+    });
+
+    // Detached window operations
+    ipcMain.handle('open-detached-window', async (_, timeFrame: string, ticker: string) => {
+      return this.detachedWindows?.open(timeFrame, ticker, this.mainWindow) ?? null;
+    });
+
+    ipcMain.handle('set-detached-window-time-frame', async (_, id: string, timeFrame: string) => {
+      this.detachedWindows?.setTimeFrame(id, timeFrame);
+    });
+
+    // 銘柄の切り替え・クロスヘア・描画の更新を他のウィンドウに中継する
+    ipcMain.on('sync-broadcast', (event, payload) => {
+      this.detachedWindows?.broadcast(event.sender, 'sync-event', payload);
     });
 
     // Notes operations
@@ -238,10 +272,30 @@ class StockChartApp {
     ipcMain.handle('app-quit', async () => {
       app.quit();
     });
+
+    // Notification operations
+    ipcMain.handle('show-notification', async (_, title: string, body: string) => {
+      if (!Notification.isSupported()) {
+        return false;
+      }
+
+      const notification = new Notification({ title, body });
+      // 通知をクリックしたらウィンドウを前面に表示
+      notification.on('click', () => {
+        if (this.mainWindow) {
+          if (this.mainWindow.isMinimized()) this.mainWindow.restore();
+          this.mainWindow.focus();
+        }
+      });
+      notification.show();
+      return true;
+    });
   }
 
-  private addToFetchQueue(ticker: string) {
-    this.fetchQueue.add(ticker);
+  private addToFetchQueue(ticker: string, timeframe: string) {
+    const kinds = this.fetchQueue.get(ticker) ?? new Set();
+    kinds.add(timeframe === '60m' ? 'intraday' : 'daily');
+    this.fetchQueue.set(ticker, kinds);
     
     // 少し遅延させてから処理開始（複数の銘柄が一度にリクエストされる場合をまとめるため）
     setTimeout(() => {
@@ -261,15 +315,16 @@ class StockChartApp {
     const tickersToFetch = Array.from(this.fetchQueue);
     this.fetchQueue.clear();
 
-    // 1つずつ順番に処理（レート制限を考慮）
-    for (const ticker of tickersToFetch) {
+    // 1つずつ順番に処理（レート制限を考慮）。足りない時間足の取得元だけを呼ぶ
+    for (const [ticker, kinds] of tickersToFetch) {
       try {
-        console.log(`Fetching data for ${ticker}...`);
-        const success = await jquantsClient.fetchAndStoreStockData(ticker, this.db);
+        console.log(`Fetching data for ${ticker} (${Array.from(kinds).join(', ')})...`);
+        const success = kinds.has('daily') && await jquantsClient.fetchAndStoreStockData(ticker, this.db);
+        const intradaySuccess = kinds.has('intraday') && await jquantsClient.fetchAndStoreIntradayData(ticker, this.db);
         
-        if (success) {
-          // データが取得できたらフロントエンドに通知
-          this.mainWindow?.webContents.send('data-updated', ticker);
+        if (success || intradaySuccess) {
+          // データが取得できたらフロントエンドに通知（別ウィンドウのチャートも読み込み直す）
+          BrowserWindow.getAllWindows().forEach(window => window.webContents.send('data-updated', ticker));
         }
         
         // レート制限を避けるため、リクエスト間に2秒の間隔
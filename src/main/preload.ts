@@ -8,8 +8,16 @@ export interface ElectronAPI {
   
   // Stock data operations
   getStockData: (ticker: string, timeframe: string, limit?: number) => Promise<any[]>;
+  getStockDataByDateRange: (ticker: string, timeframe: string, fromDate: string, toDate: string) => Promise<any[]>;
   insertStockData: (data: any[]) => Promise<void>;
   updateStockData: (ticker: string) => Promise<boolean>;
+  onDataUpdated: (callback: (ticker: string) => void) => () => void;
+  
+  // Detached window operations
+  openDetachedWindow: (timeFrame: string, ticker: string) => Promise<string | null>;
+  setDetachedWindowTimeFrame: (id: string, timeFrame: string) => Promise<void>;
+  broadcastSync: (event: any) => void;
+  onSyncEvent: (callback: (event: any) => void) => () => void;
   
   // Notes operations
   getNotes: (ticker: string) => Promise<any[]>;
@@ -26,6 +34,9 @@ export interface ElectronAPI {
   getAppVersion: () => Promise<string>;
   quitApp: () => Promise<void>;
   
+  // Notification operations
+  showNotification: (title: string, body: string) => Promise<boolean>;
+  
   // OAuth operations
   onOAuthCallback: (callback: (url: string) => void) => void;
 }
@@ -38,8 +49,28 @@ const electronAPI: ElectronAPI = {
   
   // Stock data operations
   getStockData: (ticker, timeframe, limit) => ipcRenderer.invoke('get-stock-data', ticker, timeframe, limit),
+  getStockDataByDateRange: (ticker, timeframe, fromDate, toDate) => ipcRenderer.invoke('get-stock-data-by-date-range', ticker, timeframe, fromDate, toDate),
   insertStockData: (data) => ipcRenderer.invoke('insert-stock-data', data),
   updateStockData: (ticker) => ipcRenderer.invoke('update-stock-data', ticker),
+  onDataUpdated: (callback) => {
+    const listener = (_: unknown, ticker: string) => callback(ticker);
+    ipcRenderer.on('data-updated', listener);
+    return () => {
+      ipcRenderer.removeListener('data-updated', listener);
+    };
+  },
+  
+  // Detached window operations
+  openDetachedWindow: (timeFrame, ticker) => ipcRenderer.invoke('open-detached-window', timeFrame, ticker),
+  setDetachedWindowTimeFrame: (id, timeFrame) => ipcRenderer.invoke('set-detached-window-time-frame', id, timeFrame),
+  broadcastSync: (event) => ipcRenderer.send('sync-broadcast', event),
+  onSyncEvent: (callback) => {
+    const listener = (_: unknown, event: any) => callback(event);
+    ipcRenderer.on('sync-event', listener);
+    return () => {
+      ipcRenderer.removeListener('sync-event', listener);
+    };
+  },
   
   // Notes operations
   getNotes: (ticker) => ipcRenderer.invoke('get-notes', ticker),
@@ -56,6 +87,9 @@ const electronAPI: ElectronAPI = {
   getAppVersion: () => ipcRenderer.invoke('app-version'),
   quitApp: () => ipcRenderer.invoke('app-quit'),
   
+  // Notification operations
+  showNotification: (title, body) => ipcRenderer.invoke('show-notification', title, body),
+  
   // OAuth operations
   onOAuthCallback: (callback) => {
     ipcRenderer.on('oauth-callback', (_, url) => callback(url));
@@ -1,15 +1,44 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { TimeFrame, AppState, WatchlistLevel, FilterState } from './types';
+import { TimeFrame, AppState, WatchlistLevel, FilterState, DrawingTool, ReplayState, WindowSyncEvent } from './types';
 import ChartPane from './components/ChartPane';
 import TickerController from './components/TickerController';
 import TickerList from './components/TickerList';
 import NoteDrawer from './components/NoteDrawer';
 import LoginScreen from './components/LoginScreen';
 import HorizontalLineToolbar from './components/HorizontalLineToolbar';
+import AlertInbox from './components/AlertInbox';
+import ReplayControls from './components/ReplayControls';
+import LayoutEditor from './components/LayoutEditor';
+import IndicatorDashboard from './components/IndicatorDashboard';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import { simpleAuthService } from '../lib/auth-simple';
 import { database } from '../lib/database';
-import type { HorizontalLineSettings } from '../lib/types';
+import { drawingHistory } from '../lib/drawing-history';
+import { priceAlerts, PRICE_ALERT_LABELS } from '../lib/price-alerts';
+import { relativeStrength } from '../lib/relative-strength';
+import { DEFAULT_REPLAY_INTERVAL_MS, REPLAY_SPAN_DAYS, startOfDay } from './chart/replay';
+import {
+  DEFAULT_LAYOUT_SETTINGS,
+  getLayoutGridClass,
+  getPaneKey,
+  MAX_LAYOUT_HOTKEYS,
+  PANE_CONTENT_LABELS
+} from '../lib/layouts';
+import type {
+  ChartStyle,
+  ChartStyleSettings,
+  HorizontalLineSettings,
+  LayoutSettings,
+  MovingAverageConfig,
+  MovingAverageSettings,
+  OscillatorSettings,
+  OscillatorType,
+  PaneContent,
+  PriceAlertHit,
+  PriceOverlaySettings,
+  PriceOverlayType,
+  RsRatings
+} from '../lib/types';
 import { getFavoritesSimple } from '../lib/direct-database';
 import '@fortawesome/fontawesome-free/css/all.min.css';
 import './App.css';
@@ -25,18 +54,12 @@ const normalizeLineSettings = (settings?: Partial<HorizontalLineSettings>): Hori
 
   return {
     color: settings?.color || DEFAULT_HORIZONTAL_LINE_SETTINGS.color,
-    width: clampedWidth
+    width: clampedWidth,
+    snapToTick: settings?.snapToTick === true,
+    magnet: settings?.magnet === true
   };
 };
 
-// 新しいチャートレイアウト設定
-const chartLayouts = [
-  { position: 'top-left', timeFrame: '1D' as TimeFrame, title: '日足' },
-  { position: 'top-right', timeFrame: null, title: '銘柄一覧' }, // 右上に銘柄リスト
-  { position: 'bottom-left', timeFrame: '1W' as TimeFrame, title: '週足' },
-  { position: 'bottom-right', timeFrame: '1M' as TimeFrame, title: '月足' }
-];
-
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>({
     currentTicker: '',
@@ -55,10 +78,24 @@ const App: React.FC = () => {
   const [syncedPrice, setSyncedPrice] = useState<number | null>(null);
   const [syncedTime, setSyncedTime] = useState<any>(null);
   const [sourceChart, setSourceChart] = useState<string>('');
-  const [horizontalLineMode, setHorizontalLineMode] = useState(false);
+  const [sourceTimeFrame, setSourceTimeFrame] = useState<TimeFrame | null>(null);
+  const [activeDrawingTool, setActiveDrawingTool] = useState<DrawingTool | null>(null);
   const [horizontalLineUpdate, setHorizontalLineUpdate] = useState(0); // 更新トリガー
+  const [measureResetKey, setMeasureResetKey] = useState(0); // 測定表示のクリアトリガー
   const [horizontalLineSettings, setHorizontalLineSettings] = useState<HorizontalLineSettings>(DEFAULT_HORIZONTAL_LINE_SETTINGS);
   const [showHorizontalToolbar, setShowHorizontalToolbar] = useState(false);
+  const [movingAverageSettings, setMovingAverageSettings] = useState<MovingAverageSettings>({});
+  const [oscillatorSettings, setOscillatorSettings] = useState<OscillatorSettings>({});
+  const [priceOverlaySettings, setPriceOverlaySettings] = useState<PriceOverlaySettings>({});
+  const [chartStyleSettings, setChartStyleSettings] = useState<ChartStyleSettings>({});
+  const [layoutSettings, setLayoutSettings] = useState<LayoutSettings>(DEFAULT_LAYOUT_SETTINGS);
+  const [isLayoutEditorOpen, setIsLayoutEditorOpen] = useState(false);
+  const [priceAlertInbox, setPriceAlertInbox] = useState<PriceAlertHit[]>([]);
+  const [rsRatings, setRsRatings] = useState<RsRatings>({});
+  // 表示中の銘柄のデータが更新されたら、チャートを作り直して読み込み直す
+  const [dataVersion, setDataVersion] = useState(0);
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+  const [isPickingReplayStart, setIsPickingReplayStart] = useState(false);
   const [authState, setAuthState] = useState({
     user: null as any,
     loading: true,
@@ -102,15 +139,150 @@ const App: React.FC = () => {
       }
     };
 
+    const loadMovingAverageSettings = async () => {
+      try {
+        const settings = await database.getMovingAverageSettings(authState.user?.id);
+        setMovingAverageSettings(settings);
+      } catch (error) {
+        console.error('[App] Failed to load moving average settings:', error);
+      }
+    };
+
+    const loadOscillatorSettings = async () => {
+      try {
+        const settings = await database.getOscillatorSettings(authState.user?.id);
+        setOscillatorSettings(settings);
+      } catch (error) {
+        console.error('[App] Failed to load oscillator settings:', error);
+      }
+    };
+
+    const loadPriceOverlaySettings = async () => {
+      try {
+        const settings = await database.getPriceOverlaySettings(authState.user?.id);
+        setPriceOverlaySettings(settings);
+      } catch (error) {
+        console.error('[App] Failed to load price overlay settings:', error);
+      }
+    };
+
+    const loadChartStyleSettings = async () => {
+      try {
+        const settings = await database.getChartStyleSettings(authState.user?.id);
+        setChartStyleSettings(settings);
+      } catch (error) {
+        console.error('[App] Failed to load chart style settings:', error);
+      }
+    };
+
+    const loadLayoutSettings = async () => {
+      try {
+        const settings = await database.getLayoutSettings(authState.user?.id);
+        setLayoutSettings(settings);
+      } catch (error) {
+        console.error('[App] Failed to load layout settings:', error);
+      }
+    };
+
     loadSettings();
+    loadMovingAverageSettings();
+    loadOscillatorSettings();
+    loadPriceOverlaySettings();
+    loadChartStyleSettings();
+    loadLayoutSettings();
   }, [authState.loading, authState.user]);
 
-  const toggleHorizontalMode = useCallback(() => {
-    if (!horizontalLineMode && !showHorizontalToolbar) {
+  // 描画ツールの切り替え（選択中のツールを再度選ぶと解除）
+  const toggleDrawingTool = useCallback((tool: DrawingTool) => {
+    if (activeDrawingTool !== tool && !showHorizontalToolbar) {
       setShowHorizontalToolbar(true);
     }
-    setHorizontalLineMode(prev => !prev);
-  }, [horizontalLineMode, showHorizontalToolbar]);
+    setActiveDrawingTool(prev => (prev === tool ? null : tool));
+  }, [activeDrawingTool, showHorizontalToolbar]);
+
+  const toggleHorizontalMode = useCallback(() => {
+    toggleDrawingTool('horizontal_line');
+  }, [toggleDrawingTool]);
+
+  // 描画を変更したら全ペインと別ウィンドウのチャートの描画を読み込み直す
+  const notifyDrawingsChanged = useCallback(() => {
+    setHorizontalLineUpdate(prev => prev + 1);
+    window.electronAPI?.broadcastSync?.({ type: 'drawings' });
+  }, []);
+
+  // 描画の元に戻す／やり直し後は、全ペインの描画を読み込み直す
+  const undoDrawing = useCallback(async () => {
+    if (await drawingHistory.undo(appState.currentTicker, authState.user?.id)) {
+      notifyDrawingsChanged();
+    }
+  }, [appState.currentTicker, authState.user, notifyDrawingsChanged]);
+
+  const redoDrawing = useCallback(async () => {
+    if (await drawingHistory.redo(appState.currentTicker, authState.user?.id)) {
+      notifyDrawingsChanged();
+    }
+  }, [appState.currentTicker, authState.user, notifyDrawingsChanged]);
+
+  // 価格アラートの評価（データ更新後に呼ぶ）。発火したものはデスクトップ通知も出す
+  const evaluatePriceAlerts = useCallback(async () => {
+    try {
+      const hits = await priceAlerts.evaluate(authState.user?.id);
+      setPriceAlertInbox(await priceAlerts.getInbox(authState.user?.id));
+
+      hits.forEach(hit => {
+        window.electronAPI?.showNotification?.(
+          `価格アラート: ${hit.ticker}`,
+          `${hit.price.toLocaleString()} を${PRICE_ALERT_LABELS[hit.condition]}しました（終値 ${hit.close.toLocaleString()}）`
+        );
+      });
+    } catch (error) {
+      console.error('[App] Failed to evaluate price alerts:', error);
+    }
+  }, [authState.user]);
+
+  useEffect(() => {
+    if (authState.loading || isLoading) {
+      return;
+    }
+
+    evaluatePriceAlerts();
+  }, [authState.loading, isLoading, evaluatePriceAlerts]);
+
+  // メインプロセスで株価データが更新されたら再評価し、表示中の銘柄ならチャートを読み込み直す
+  // （初めて表示した銘柄の60分足などは、取得が終わるまで空のまま表示されるため）
+  useEffect(() => {
+    return window.electronAPI?.onDataUpdated?.((updatedTicker: string) => {
+      evaluatePriceAlerts();
+      if (updatedTicker === appState.currentTicker) {
+        setDataVersion(prev => prev + 1);
+      }
+    });
+  }, [evaluatePriceAlerts, appState.currentTicker]);
+
+  // RSレーティングは全銘柄の終値が必要なため、銘柄一覧の読み込み後にバックグラウンドで計算する
+  useEffect(() => {
+    if (appState.tickers.length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+    relativeStrength.getRatings(appState.tickers).then(ratings => {
+      if (!cancelled) {
+        setRsRatings(ratings);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [appState.tickers]);
+
+  const markPriceAlertsRead = useCallback(async () => {
+    setPriceAlertInbox(await priceAlerts.markAllRead(authState.user?.id));
+  }, [authState.user]);
+
+  const clearPriceAlerts = useCallback(async () => {
+    setPriceAlertInbox(await priceAlerts.clear(authState.user?.id));
+  }, [authState.user]);
 
   // 共通の初期化処理
   const loadAppData = useCallback(async (isRetry = false) => {
@@ -366,12 +538,113 @@ const App: React.FC = () => {
   };
 
   // チャート間同期ハンドラー
-  const handleCrosshairMove = useCallback((price: number | null, time: any, sourceChartTitle: string) => {
+  const handleCrosshairMove = useCallback((price: number | null, time: any, sourceChartTitle: string, sourceChartTimeFrame: TimeFrame) => {
     setSyncedPrice(price);
     setSyncedTime(time);
     setSourceChart(sourceChartTitle);
+    setSourceTimeFrame(sourceChartTimeFrame);
+    window.electronAPI?.broadcastSync?.({
+      type: 'crosshair',
+      price,
+      time,
+      sourceChart: sourceChartTitle,
+      sourceTimeFrame: sourceChartTimeFrame
+    });
   }, []);
 
+  // 別ウィンドウのチャートは表示中の銘柄に追従する
+  useEffect(() => {
+    if (appState.currentTicker) {
+      window.electronAPI?.broadcastSync?.({ type: 'ticker', ticker: appState.currentTicker });
+    }
+  }, [appState.currentTicker]);
+
+  // 別ウィンドウからのクロスヘア・描画の更新と、銘柄の問い合わせを受け取る
+  useEffect(() => {
+    return window.electronAPI?.onSyncEvent?.((event: WindowSyncEvent) => {
+      if (event.type === 'crosshair') {
+        setSyncedPrice(event.price);
+        setSyncedTime(event.time);
+        setSourceChart(event.sourceChart);
+        setSourceTimeFrame(event.sourceTimeFrame);
+      } else if (event.type === 'drawings') {
+        setHorizontalLineUpdate(prev => prev + 1);
+      } else if (event.type === 'request-ticker' && appState.currentTicker) {
+        window.electronAPI.broadcastSync({ type: 'ticker', ticker: appState.currentTicker });
+      }
+    });
+  }, [appState.currentTicker]);
+
+  // ペインのチャートを別ウィンドウ（別のディスプレイ）に切り出す
+  const detachPane = useCallback((timeFrame: TimeFrame) => {
+    window.electronAPI?.openDetachedWindow?.(timeFrame, appState.currentTicker);
+  }, [appState.currentTicker]);
+
+  // リプレイ：選んだ日以降の日足の日付を読み込み、その日から1本ずつ進める
+  const startReplay = useCallback(async (time: number) => {
+    setIsPickingReplayStart(false);
+    const fromTime = startOfDay(time);
+    const toDate = (seconds: number) => new Date(seconds * 1000).toISOString().slice(0, 10);
+
+    try {
+      const stockData = await database.getStockDataByDateRange(
+        appState.currentTicker,
+        '1D',
+        toDate(fromTime),
+        toDate(fromTime + REPLAY_SPAN_DAYS * 24 * 60 * 60)
+      );
+      const times = Array.from(new Set(stockData.map(data => Math.floor(new Date(data.date).getTime() / 1000))))
+        .sort((a, b) => a - b);
+      if (times.length === 0) {
+        console.warn('[App] No daily data to replay from', toDate(fromTime));
+        return;
+      }
+
+      setReplay({ times, index: 0, playing: false, intervalMs: DEFAULT_REPLAY_INTERVAL_MS });
+    } catch (error) {
+      console.error('[App] Failed to start replay:', error);
+    }
+  }, [appState.currentTicker]);
+
+  const stepReplay = useCallback((delta: number) => {
+    setReplay(prev => {
+      if (!prev) {
+        return prev;
+      }
+      const index = Math.max(0, Math.min(prev.times.length - 1, prev.index + delta));
+      // 最後の日まで進んだら自動再生を止める
+      return { ...prev, index, playing: prev.playing && index < prev.times.length - 1 };
+    });
+  }, []);
+
+  const toggleReplayPlaying = useCallback(() => {
+    setReplay(prev => (prev ? { ...prev, playing: !prev.playing && prev.index < prev.times.length - 1 } : prev));
+  }, []);
+
+  const changeReplayInterval = useCallback((intervalMs: number) => {
+    setReplay(prev => (prev ? { ...prev, intervalMs } : prev));
+  }, []);
+
+  const exitReplay = useCallback(() => {
+    setReplay(null);
+    setIsPickingReplayStart(false);
+  }, []);
+
+  const isReplayPlaying = replay?.playing ?? false;
+  const replayIntervalMs = replay?.intervalMs ?? DEFAULT_REPLAY_INTERVAL_MS;
+  useEffect(() => {
+    if (!isReplayPlaying) {
+      return;
+    }
+    const timer = window.setInterval(() => stepReplay(1), replayIntervalMs);
+    return () => window.clearInterval(timer);
+  }, [isReplayPlaying, replayIntervalMs, stepReplay]);
+
+  // 銘柄を切り替えたらリプレイを終了する
+  useEffect(() => {
+    exitReplay();
+  }, [appState.currentTicker, exitReplay]);
+
   const handleHorizontalLineSettingsChange = useCallback(async (settings: HorizontalLineSettings) => {
     const normalized = normalizeLineSettings(settings);
     setHorizontalLineSettings(normalized);
@@ -382,6 +655,74 @@ const App: React.FC = () => {
     }
   }, [authState.user]);
 
+  const handleMovingAveragesChange = useCallback(async (timeFrame: TimeFrame, configs: MovingAverageConfig[]) => {
+    setMovingAverageSettings(prev => ({ ...prev, [timeFrame]: configs }));
+    try {
+      const saved = await database.saveMovingAverageSettings(authState.user?.id, timeFrame, configs);
+      setMovingAverageSettings(prev => ({ ...prev, [timeFrame]: saved }));
+    } catch (error) {
+      console.error('[App] Failed to save moving average settings:', error);
+    }
+  }, [authState.user]);
+
+  const handleOscillatorChange = useCallback(async (paneKey: string, oscillator: OscillatorType) => {
+    setOscillatorSettings(prev => ({ ...prev, [paneKey]: oscillator }));
+    try {
+      await database.saveOscillatorSetting(authState.user?.id, paneKey, oscillator);
+    } catch (error) {
+      console.error('[App] Failed to save oscillator setting:', error);
+    }
+  }, [authState.user]);
+
+  const handleChartStyleChange = useCallback(async (position: string, style: ChartStyle) => {
+    setChartStyleSettings(prev => ({ ...prev, [position]: style }));
+    try {
+      await database.saveChartStyleSetting(authState.user?.id, position, style);
+    } catch (error) {
+      console.error('[App] Failed to save chart style setting:', error);
+    }
+  }, [authState.user]);
+
+  const saveLayoutSettings = useCallback(async (settings: LayoutSettings) => {
+    setLayoutSettings(settings);
+    try {
+      const saved = await database.saveLayoutSettings(authState.user?.id, settings);
+      setLayoutSettings(saved);
+    } catch (error) {
+      console.error('[App] Failed to save layout settings:', error);
+    }
+  }, [authState.user]);
+
+  const activeLayout = layoutSettings.layouts.find(layout => layout.id === layoutSettings.activeLayoutId)
+    ?? layoutSettings.layouts[0];
+
+  const switchLayout = useCallback((layoutId: string) => {
+    if (layoutId !== layoutSettings.activeLayoutId) {
+      saveLayoutSettings({ ...layoutSettings, activeLayoutId: layoutId });
+    }
+  }, [layoutSettings, saveLayoutSettings]);
+
+  // ペインのヘッダーで時間足を変えたら、表示中のレイアウトのそのペインを書き換える
+  const handlePaneContentChange = useCallback((index: number, content: PaneContent) => {
+    saveLayoutSettings({
+      ...layoutSettings,
+      layouts: layoutSettings.layouts.map(layout => (
+        layout.id === activeLayout.id
+          ? { ...layout, slots: layout.slots.map((slot, i) => (i === index ? content : slot)) }
+          : layout
+      ))
+    });
+  }, [activeLayout.id, layoutSettings, saveLayoutSettings]);
+
+  const handlePriceOverlaysChange = useCallback(async (timeFrame: TimeFrame, overlays: PriceOverlayType[]) => {
+    setPriceOverlaySettings(prev => ({ ...prev, [timeFrame]: overlays }));
+    try {
+      await database.savePriceOverlaySetting(authState.user?.id, timeFrame, overlays);
+    } catch (error) {
+      console.error('[App] Failed to save price overlay setting:', error);
+    }
+  }, [authState.user]);
+
   // 銘柄検索機能
   const searchTicker = (query: string) => {
     const displayTickers = appState.showFavoritesOnly 
@@ -428,9 +769,9 @@ const App: React.FC = () => {
     'PageUp': () => navigateToTicker('prev', 100),
     'PageDown': () => navigateToTicker('next', 100),
     
-    // フィルター切り替え
-    'ArrowLeft': () => switchFilter('prev'),
-    'ArrowRight': () => switchFilter('next'),
+    // フィルター切り替え（リプレイ中は1本戻る・進む）
+    'ArrowLeft': () => (replay ? stepReplay(-1) : switchFilter('prev')),
+    'ArrowRight': () => (replay ? stepReplay(1) : switchFilter('next')),
     
     // ウォッチリストレベル設定
     '0': () => setWatchlistLevel(appState.currentTicker, 0),
@@ -442,13 +783,35 @@ const App: React.FC = () => {
     // 水平線モード
     'h': () => toggleHorizontalMode(),
     'H': () => toggleHorizontalMode(),
+
+    // リプレイの再生・一時停止
+    'p': () => toggleReplayPlaying(),
+    'P': () => toggleReplayPlaying(),
+
+    // 描画の元に戻す／やり直し（表示中の銘柄のみ）
+    'Ctrl+z': () => undoDrawing(),
+    'Ctrl+Z': () => undoDrawing(),
+    'Shift+Ctrl+Z': () => redoDrawing(),
+    'Shift+Ctrl+z': () => redoDrawing(),
+    'Meta+z': () => undoDrawing(),
+    'Meta+Z': () => undoDrawing(),
+    'Shift+Meta+Z': () => redoDrawing(),
+    'Shift+Meta+z': () => redoDrawing(),
     
+    // レイアウトの切り替え（一覧の順に Ctrl+1〜9）
+    ...Object.fromEntries(layoutSettings.layouts.slice(0, MAX_LAYOUT_HOTKEYS).map((layout, index) => [
+      `Ctrl+${index + 1}`,
+      () => switchLayout(layout.id)
+    ])),
+
     // その他
     'Space': () => toggleFavoritesFilter(), // 従来機能との互換性
     'Tab': () => setIsNoteDrawerOpen(true),
     'Escape': () => {
       setIsNoteDrawerOpen(false);
-      setHorizontalLineMode(false); // 水平線モードも解除
+      setActiveDrawingTool(null); // 描画モードも解除
+      setMeasureResetKey(prev => prev + 1); // 測定表示も消す
+      setIsPickingReplayStart(false);
     }
   });
 
@@ -540,12 +903,44 @@ const App: React.FC = () => {
   const renderHorizontalLineControls = () => (
     <>
       <div className="hl-toolbar-toggle">
+        <AlertInbox
+          alerts={priceAlertInbox}
+          onSelectTicker={handleTickerSelect}
+          onMarkAllRead={markPriceAlertsRead}
+          onClear={clearPriceAlerts}
+        />
+        <select
+          className="hl-layout-select"
+          value={activeLayout.id}
+          onChange={(e) => switchLayout(e.target.value)}
+          title="レイアウト（Ctrl+1〜9 で切り替え）"
+        >
+          {layoutSettings.layouts.map(layout => (
+            <option key={layout.id} value={layout.id}>{layout.name}</option>
+          ))}
+        </select>
+        <button
+          className="hl-settings-button"
+          onClick={() => setIsLayoutEditorOpen(true)}
+          title="ペインの配置と表示内容を編集する"
+        >
+          <i className="fas fa-th-large"></i> レイアウト
+        </button>
+        {!replay && (
+          <button
+            className={`hl-settings-button ${isPickingReplayStart ? 'active' : ''}`}
+            onClick={() => setIsPickingReplayStart(prev => !prev)}
+            title="チャート上のバーをクリックして、その日からリプレイする"
+          >
+            <i className="fas fa-history"></i> {isPickingReplayStart ? '開始日を選択中…' : 'リプレイ'}
+          </button>
+        )}
         <button
           className="hl-settings-button"
           onClick={() => setShowHorizontalToolbar(prev => {
             const next = !prev;
             if (!next) {
-              setHorizontalLineMode(false);
+              setActiveDrawingTool(null);
             }
             return next;
           })}
@@ -555,8 +950,8 @@ const App: React.FC = () => {
       </div>
       {showHorizontalToolbar && (
         <HorizontalLineToolbar
-          isActive={horizontalLineMode}
-          onToggle={toggleHorizontalMode}
+          activeTool={activeDrawingTool}
+          onSelectTool={toggleDrawingTool}
           settings={horizontalLineSettings}
           onChange={handleHorizontalLineSettingsChange}
         />
@@ -671,48 +1066,104 @@ const App: React.FC = () => {
         onOpenNotes={() => setIsNoteDrawerOpen(true)}
         onSearchTicker={searchTicker}
         watchlistCounts={watchlistCounts}
+        rsRating={rsRatings[appState.currentTicker] ?? null}
       />
       {renderHorizontalLineControls()}
+      {replay && (
+        <ReplayControls
+          replay={replay}
+          onStep={stepReplay}
+          onTogglePlaying={toggleReplayPlaying}
+          onIntervalChange={changeReplayInterval}
+          onExit={exitReplay}
+        />
+      )}
 
-      <div className="chart-grid">
-        {chartLayouts.map((layout) => (
-          layout.timeFrame ? (
+      <div className={`chart-grid ${getLayoutGridClass(activeLayout.preset)}`}>
+        {activeLayout.slots.map((content, index) => {
+          const paneKey = getPaneKey(activeLayout, index);
+
+          if (content === 'ticker_list' || content === 'notes' || content === 'dashboard') {
+            return (
+              <div key={index} className="chart-pane">
+                {content !== 'notes' && (
+                  <div className="chart-header">
+                    <span className="chart-title">
+                      {PANE_CONTENT_LABELS[content]}
+                      {content === 'dashboard' && appState.currentTicker && ` - ${appState.currentTicker}`}
+                    </span>
+                  </div>
+                )}
+                <div className="chart-container">
+                  {content === 'ticker_list' && (
+                    <TickerList
+                      tickers={getFilteredTickers()}
+                      currentTicker={appState.currentTicker}
+                      watchlistLevels={appState.watchlistLevels}
+                      onTickerSelect={handleTickerSelect}
+                      rsRatings={rsRatings}
+                    />
+                  )}
+                  {content === 'notes' && (
+                    <NoteDrawer isOpen={true} ticker={appState.currentTicker} embedded />
+                  )}
+                  {content === 'dashboard' && (
+                    <IndicatorDashboard ticker={appState.currentTicker} rsRating={rsRatings[appState.currentTicker]} />
+                  )}
+                </div>
+              </div>
+            );
+          }
+
+          return (
             <ChartPane
-              key={layout.position}
+              key={`${index}-${dataVersion}`}
               ticker={appState.currentTicker}
-              timeFrame={layout.timeFrame}
-              title={layout.title}
+              market={currentTickerData?.market}
+              timeFrame={content}
+              onTimeFrameChange={(value) => handlePaneContentChange(index, value)}
+              title={PANE_CONTENT_LABELS[content]}
+              paneId={paneKey}
+              onDetach={window.electronAPI ? () => detachPane(content) : undefined}
               delay={0} // 並列読み込み
               onCrosshairMove={handleCrosshairMove}
               syncedPrice={syncedPrice}
               syncedTime={syncedTime}
               sourceChart={sourceChart}
-              horizontalLineMode={horizontalLineMode}
-              onHorizontalLineAdded={() => {
-                setHorizontalLineUpdate(prev => prev + 1); // 他のチャートも更新
-              }}
+              sourceTimeFrame={sourceTimeFrame}
+              drawingTool={activeDrawingTool}
+              onHorizontalLineAdded={notifyDrawingsChanged} // 他のチャートも更新
               horizontalLineUpdate={horizontalLineUpdate}
+              measureResetKey={measureResetKey}
+              replayStartTime={replay ? replay.times[0] : null}
+              replayTime={replay ? replay.times[replay.index] : null}
+              isPickingReplayStart={isPickingReplayStart}
+              onReplayStartPick={startReplay}
               lineSettings={horizontalLineSettings}
               userId={authState.user?.id}
+              movingAverages={movingAverageSettings[content]}
+              onMovingAveragesChange={handleMovingAveragesChange}
+              oscillator={oscillatorSettings[paneKey] ?? oscillatorSettings[content]} // 未設定のペインは以前の時間足ごとの選択を使う
+              onOscillatorChange={(oscillator) => handleOscillatorChange(paneKey, oscillator)}
+              priceOverlays={priceOverlaySettings[content]}
+              onPriceOverlaysChange={handlePriceOverlaysChange}
+              chartStyle={chartStyleSettings[paneKey]}
+              onChartStyleChange={(style) => handleChartStyleChange(paneKey, style)}
             />
-          ) : (
-            <div key={layout.position} className="chart-pane">
-              <div className="chart-header">
-                <span className="chart-title">{layout.title}</span>
-              </div>
-              <div className="chart-container">
-                <TickerList
-                  tickers={getFilteredTickers()}
-                  currentTicker={appState.currentTicker}
-                  watchlistLevels={appState.watchlistLevels}
-                  onTickerSelect={handleTickerSelect}
-                />
-              </div>
-            </div>
-          )
-        ))}
+          );
+        })}
       </div>
 
+      <LayoutEditor
+        isOpen={isLayoutEditorOpen}
+        settings={layoutSettings}
+        onClose={() => setIsLayoutEditorOpen(false)}
+        onSave={(settings) => {
+          saveLayoutSettings(settings);
+          setIsLayoutEditorOpen(false);
+        }}
+      />
+
       <NoteDrawer
         isOpen={isNoteDrawerOpen}
         ticker={appState.currentTicker}
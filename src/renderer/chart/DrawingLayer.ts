@@ -0,0 +1,737 @@
+import type {
+  IChartApi,
+  ISeriesApi,
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  Logical,
+  SeriesAttachedParameter,
+  SeriesType,
+  Time
+} from 'lightweight-charts';
+import { logicalToTime, timeToLogical } from './timeMapping';
+import { getChartColors, withAlpha } from '../config/chartColors';
+import { formatPrice } from '../../lib/price-precision';
+
+type RenderingTarget = Parameters<ISeriesPrimitivePaneRenderer['draw']>[0];
+
+export interface DrawingAnchor {
+  time: number;
+  price: number;
+}
+
+// 全ての時間足に表示するか（false の場合は作成・編集した時間足のみ）
+interface DrawingScope {
+  allTimeframes: boolean;
+}
+
+export interface TrendLineDrawing extends DrawingScope {
+  type: 'trend_line';
+  id: string;
+  start: DrawingAnchor;
+  end: DrawingAnchor;
+  color: string;
+  width: number;
+  extendRight: boolean;
+}
+
+export interface RectangleDrawing extends DrawingScope {
+  type: 'rectangle';
+  id: string;
+  start: DrawingAnchor;
+  end: DrawingAnchor;
+  color: string;
+  width: number;
+}
+
+export interface TextDrawing extends DrawingScope {
+  type: 'text';
+  id: string;
+  anchor: DrawingAnchor;
+  text: string;
+  color: string;
+  fontSize: number;
+}
+
+// start / end はスイングの始点・終点（0% が終点、100% が始点）
+export interface FibonacciDrawing extends DrawingScope {
+  type: 'fibonacci';
+  id: string;
+  start: DrawingAnchor;
+  end: DrawingAnchor;
+  color: string;
+  width: number;
+}
+
+export type AnchoredDrawing = TrendLineDrawing | RectangleDrawing | TextDrawing | FibonacciDrawing;
+
+// 2点で描画する図形の描画途中（プレビュー）の状態
+export type DrawingPreview =
+  | Omit<TrendLineDrawing, 'id'>
+  | Omit<RectangleDrawing, 'id'>
+  | Omit<FibonacciDrawing, 'id'>;
+
+// 保存前（ID未採番）の描画オブジェクト
+export type DrawingDraft = DrawingPreview | Omit<TextDrawing, 'id'>;
+
+// start / end はアンカーそのもの、残り2つは四角形の対角以外の角
+export type DrawingHandle = 'start' | 'end' | 'start_time_end_price' | 'end_time_start_price' | 'body';
+
+export interface DrawingHit {
+  id: string;
+  handle: DrawingHandle;
+}
+
+// Shift+ドラッグで測る2点間の距離（保存しない一時的な表示）
+export interface Measurement {
+  start: DrawingAnchor;
+  end: DrawingAnchor;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface RenderedHandle {
+  handle: DrawingHandle;
+  point: Point;
+}
+
+interface RenderedFibonacciLevel {
+  ratio: number;
+  price: number;
+  y: number;
+}
+
+type RenderedDrawing =
+  | {
+    type: 'trend_line';
+    id: string;
+    from: Point;
+    to: Point;
+    handles: RenderedHandle[];
+    color: string;
+    width: number;
+    selected: boolean;
+    preview: boolean;
+  }
+  | {
+    type: 'rectangle';
+    id: string;
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+    handles: RenderedHandle[];
+    color: string;
+    width: number;
+    selected: boolean;
+    preview: boolean;
+  }
+  | {
+    type: 'fibonacci';
+    id: string;
+    left: number;
+    right: number;
+    from: Point;
+    to: Point;
+    levels: RenderedFibonacciLevel[];
+    handles: RenderedHandle[];
+    color: string;
+    width: number;
+    selected: boolean;
+    preview: boolean;
+  }
+  | {
+    type: 'text';
+    id: string;
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+    text: string;
+    color: string;
+    fontSize: number;
+    selected: boolean;
+    preview: boolean;
+  };
+
+const HANDLE_RADIUS = 5;
+const HANDLE_HIT_TOLERANCE = 8;
+const LINE_HIT_TOLERANCE = 6;
+const TEXT_PADDING = 4;
+const RECTANGLE_FILL_ALPHA = 0.12;
+
+const FIBONACCI_LABEL_FONT_SIZE = 11;
+
+const MEASURE_FILL_ALPHA = 0.15;
+const MEASURE_LABEL_FONT_SIZE = 12;
+const MEASURE_LABEL_LINE_HEIGHT = 16;
+const MEASURE_LABEL_OFFSET = 8;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+interface RenderedMeasurement {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  from: Point;
+  to: Point;
+  lines: string[];
+  color: string;
+}
+
+export const FIBONACCI_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1, 1.618];
+
+// 終点を 0%、始点を 100% とし、100% を超える値は始点の先へのエクステンション
+export const fibonacciLevelPrice = (start: DrawingAnchor, end: DrawingAnchor, ratio: number): number => {
+  return end.price + (start.price - end.price) * ratio;
+};
+
+const fontOf = (fontSize: number) => `${fontSize}px sans-serif`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// ヒットテストでも描画と同じ幅を使うため、オフスクリーンのcanvasで計測する
+const measureTextWidth = (text: string, fontSize: number): number => {
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d');
+  }
+  if (!measureContext) {
+    return text.length * fontSize * 0.6;
+  }
+  measureContext.font = fontOf(fontSize);
+  return measureContext.measureText(text).width;
+};
+
+const distanceToSegment = (point: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) {
+    return Math.hypot(point.x - a.x, point.y - a.y);
+  }
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+};
+
+// 図形全体を平行移動する（shift は各アンカーの移動先を返す）
+export const moveDrawing = (
+  drawing: AnchoredDrawing,
+  shift: (anchor: DrawingAnchor) => DrawingAnchor | null
+): AnchoredDrawing | null => {
+  if (drawing.type === 'text') {
+    const anchor = shift(drawing.anchor);
+    return anchor ? { ...drawing, anchor } : null;
+  }
+
+  const start = shift(drawing.start);
+  const end = shift(drawing.end);
+  return start && end ? { ...drawing, start, end } : null;
+};
+
+// ハンドルのドラッグによる変形
+export const resizeDrawing = (
+  drawing: AnchoredDrawing,
+  handle: DrawingHandle,
+  anchor: DrawingAnchor
+): AnchoredDrawing => {
+  if (drawing.type === 'text') {
+    return { ...drawing, anchor };
+  }
+
+  switch (handle) {
+    case 'start':
+      return { ...drawing, start: anchor };
+    case 'end':
+      return { ...drawing, end: anchor };
+    case 'start_time_end_price':
+      return {
+        ...drawing,
+        start: { ...drawing.start, time: anchor.time },
+        end: { ...drawing.end, price: anchor.price }
+      };
+    case 'end_time_start_price':
+      return {
+        ...drawing,
+        start: { ...drawing.start, price: anchor.price },
+        end: { ...drawing.end, time: anchor.time }
+      };
+    default:
+      return drawing;
+  }
+};
+
+// 位置に関する保存用データ（移動・変形後の永続化に使う）
+export const drawingGeometry = (drawing: AnchoredDrawing): Record<string, DrawingAnchor> => {
+  return drawing.type === 'text'
+    ? { anchor: drawing.anchor }
+    : { start: drawing.start, end: drawing.end };
+};
+
+const drawHandles = (context: CanvasRenderingContext2D, handles: RenderedHandle[]) => {
+  handles.forEach(({ point }) => {
+    context.beginPath();
+    context.arc(point.x, point.y, HANDLE_RADIUS, 0, Math.PI * 2);
+    context.fillStyle = '#ffffff';
+    context.fill();
+    context.lineWidth = 2;
+    context.strokeStyle = '#007bff';
+    context.stroke();
+  });
+};
+
+// 測定範囲の塗りと、終点側に価格差・騰落率・本数・日数のラベルを描く
+const drawMeasurement = (context: CanvasRenderingContext2D, measurement: RenderedMeasurement) => {
+  const { left, top, right, bottom, from, to, lines, color } = measurement;
+  context.save();
+  context.fillStyle = withAlpha(color, MEASURE_FILL_ALPHA);
+  context.fillRect(left, top, right - left, bottom - top);
+
+  context.strokeStyle = color;
+  context.lineWidth = 1;
+  context.beginPath();
+  context.moveTo(from.x, from.y);
+  context.lineTo(to.x, to.y);
+  context.stroke();
+
+  context.font = fontOf(MEASURE_LABEL_FONT_SIZE);
+  const labelWidth = Math.max(...lines.map(line => measureTextWidth(line, MEASURE_LABEL_FONT_SIZE))) + TEXT_PADDING * 2;
+  const labelHeight = lines.length * MEASURE_LABEL_LINE_HEIGHT + TEXT_PADDING;
+  const labelLeft = (left + right) / 2 - labelWidth / 2;
+  // 上昇なら範囲の上、下落なら範囲の下にラベルを置く
+  const labelTop = to.y <= from.y
+    ? top - labelHeight - MEASURE_LABEL_OFFSET
+    : bottom + MEASURE_LABEL_OFFSET;
+
+  context.fillStyle = color;
+  context.fillRect(labelLeft, labelTop, labelWidth, labelHeight);
+  context.fillStyle = '#ffffff';
+  context.textAlign = 'center';
+  context.textBaseline = 'top';
+  lines.forEach((line, index) => {
+    context.fillText(line, labelLeft + labelWidth / 2, labelTop + TEXT_PADDING / 2 + index * MEASURE_LABEL_LINE_HEIGHT + 2);
+  });
+  context.restore();
+};
+
+class DrawingLayerRenderer implements ISeriesPrimitivePaneRenderer {
+  constructor(
+    private drawings: RenderedDrawing[],
+    private measurement: RenderedMeasurement | null,
+    private pricePrecision: number
+  ) {}
+
+  draw(target: RenderingTarget) {
+    target.useMediaCoordinateSpace(({ context }) => {
+      if (this.measurement) {
+        drawMeasurement(context, this.measurement);
+      }
+
+      this.drawings.forEach(drawing => {
+        context.save();
+        if (drawing.preview) {
+          context.setLineDash([6, 4]);
+        }
+
+        if (drawing.type === 'trend_line') {
+          context.strokeStyle = drawing.color;
+          context.lineWidth = drawing.selected ? drawing.width + 1 : drawing.width;
+          context.beginPath();
+          context.moveTo(drawing.from.x, drawing.from.y);
+          context.lineTo(drawing.to.x, drawing.to.y);
+          context.stroke();
+        } else if (drawing.type === 'fibonacci') {
+          context.strokeStyle = drawing.color;
+          context.fillStyle = drawing.color;
+          context.lineWidth = drawing.selected ? drawing.width + 1 : drawing.width;
+          context.font = fontOf(FIBONACCI_LABEL_FONT_SIZE);
+          context.textBaseline = 'bottom';
+          drawing.levels.forEach(level => {
+            context.beginPath();
+            context.moveTo(drawing.left, level.y);
+            context.lineTo(drawing.right, level.y);
+            context.stroke();
+            context.fillText(
+              `${(level.ratio * 100).toFixed(1)}% (${formatPrice(level.price, this.pricePrecision)})`,
+              drawing.left + TEXT_PADDING,
+              level.y - 2
+            );
+          });
+
+          // スイングの2点を結ぶ補助線
+          context.setLineDash([4, 4]);
+          context.lineWidth = 1;
+          context.beginPath();
+          context.moveTo(drawing.from.x, drawing.from.y);
+          context.lineTo(drawing.to.x, drawing.to.y);
+          context.stroke();
+        } else if (drawing.type === 'rectangle') {
+          const width = drawing.right - drawing.left;
+          const height = drawing.bottom - drawing.top;
+          context.fillStyle = withAlpha(drawing.color, RECTANGLE_FILL_ALPHA);
+          context.fillRect(drawing.left, drawing.top, width, height);
+          context.strokeStyle = drawing.color;
+          context.lineWidth = drawing.selected ? drawing.width + 1 : drawing.width;
+          context.strokeRect(drawing.left, drawing.top, width, height);
+        } else {
+          context.font = fontOf(drawing.fontSize);
+          context.textBaseline = 'middle';
+          context.fillStyle = drawing.color;
+          context.fillText(drawing.text, drawing.left + TEXT_PADDING, (drawing.top + drawing.bottom) / 2);
+          if (drawing.selected) {
+            context.setLineDash([4, 3]);
+            context.lineWidth = 1;
+            context.strokeStyle = '#007bff';
+            context.strokeRect(drawing.left, drawing.top, drawing.right - drawing.left, drawing.bottom - drawing.top);
+          }
+        }
+        context.restore();
+
+        if (drawing.type !== 'text' && (drawing.selected || drawing.preview)) {
+          drawHandles(context, drawing.handles);
+        }
+      });
+    });
+  }
+}
+
+class DrawingLayerPaneView implements ISeriesPrimitivePaneView {
+  constructor(private source: DrawingLayer) {}
+
+  renderer() {
+    return new DrawingLayerRenderer(
+      this.source.getRenderedDrawings(),
+      this.source.getRenderedMeasurement(),
+      this.source.getPricePrecision()
+    );
+  }
+}
+
+// トレンドライン・四角形・テキスト・フィボナッチなど、時刻と価格のアンカーで定義される
+// 描画オブジェクトをローソク足シリーズ上に描画するプリミティブ
+export class DrawingLayer implements ISeriesPrimitive<Time> {
+  private chart: IChartApi | null = null;
+  private series: ISeriesApi<SeriesType> | null = null;
+  private requestUpdate: (() => void) | null = null;
+  private barTimes: number[] = [];
+  private drawings: AnchoredDrawing[] = [];
+  private selectedId: string | null = null;
+  private preview: DrawingPreview | null = null;
+  private measurement: Measurement | null = null;
+  private pricePrecision = 0;
+  private readonly paneViewList: ISeriesPrimitivePaneView[];
+
+  constructor() {
+    this.paneViewList = [new DrawingLayerPaneView(this)];
+  }
+
+  attached(param: SeriesAttachedParameter<Time>) {
+    this.chart = param.chart as IChartApi;
+    this.series = param.series;
+    this.requestUpdate = param.requestUpdate;
+  }
+
+  detached() {
+    this.chart = null;
+    this.series = null;
+    this.requestUpdate = null;
+  }
+
+  paneViews() {
+    return this.paneViewList;
+  }
+
+  setBarTimes(barTimes: number[]) {
+    this.barTimes = barTimes;
+    this.requestUpdate?.();
+  }
+
+  setDrawings(drawings: AnchoredDrawing[], selectedId: string | null) {
+    this.drawings = drawings;
+    this.selectedId = selectedId;
+    this.requestUpdate?.();
+  }
+
+  setPreview(preview: DrawingPreview | null) {
+    this.preview = preview;
+    this.requestUpdate?.();
+  }
+
+  setMeasurement(measurement: Measurement | null) {
+    this.measurement = measurement;
+    this.requestUpdate?.();
+  }
+
+  // フィボナッチ・測定のラベルに使う価格の小数桁数
+  setPricePrecision(precision: number) {
+    this.pricePrecision = precision;
+    this.requestUpdate?.();
+  }
+
+  getPricePrecision() {
+    return this.pricePrecision;
+  }
+
+  toLogical(time: number): number | null {
+    return timeToLogical(this.barTimes, time);
+  }
+
+  fromLogical(logical: number): number | null {
+    return logicalToTime(this.barTimes, logical);
+  }
+
+  anchorToPoint(anchor: DrawingAnchor): Point | null {
+    if (!this.chart || !this.series) {
+      return null;
+    }
+
+    const logical = this.toLogical(anchor.time);
+    if (logical === null) {
+      return null;
+    }
+
+    const x = this.chart.timeScale().logicalToCoordinate(logical as Logical);
+    const y = this.series.priceToCoordinate(anchor.price);
+    if (x === null || y === null) {
+      return null;
+    }
+    return { x, y };
+  }
+
+  pointToAnchor(x: number, y: number): DrawingAnchor | null {
+    if (!this.chart || !this.series) {
+      return null;
+    }
+
+    const logical = this.chart.timeScale().coordinateToLogical(x);
+    const price = this.series.coordinateToPrice(y);
+    if (logical === null || price === null) {
+      return null;
+    }
+
+    const time = this.fromLogical(logical);
+    return time === null ? null : { time, price };
+  }
+
+  // lightweight-charts の hitTest（ホバー判定）とは別に、編集用の当たり判定を行う
+  findDrawingAt(x: number, y: number): DrawingHit | null {
+    const point = { x, y };
+    const rendered = this.getRenderedDrawings(false);
+
+    // 手前（後から追加したもの）を優先
+    for (let i = rendered.length - 1; i >= 0; i--) {
+      const drawing = rendered[i];
+
+      if (drawing.type !== 'text') {
+        const handle = drawing.handles.find(({ point: handlePoint }) => (
+          Math.hypot(x - handlePoint.x, y - handlePoint.y) <= HANDLE_HIT_TOLERANCE
+        ));
+        if (handle) {
+          return { id: drawing.id, handle: handle.handle };
+        }
+      }
+
+      if (drawing.type === 'trend_line') {
+        if (distanceToSegment(point, drawing.from, drawing.to) <= LINE_HIT_TOLERANCE) {
+          return { id: drawing.id, handle: 'body' };
+        }
+        continue;
+      }
+
+      if (drawing.type === 'fibonacci') {
+        // どのレベルを掴んでも全体を1つのオブジェクトとして扱う
+        const onLevel = drawing.levels.some(level => (
+          distanceToSegment(point, { x: drawing.left, y: level.y }, { x: drawing.right, y: level.y }) <= LINE_HIT_TOLERANCE
+        ));
+        if (onLevel) {
+          return { id: drawing.id, handle: 'body' };
+        }
+        continue;
+      }
+
+      const inside = x >= drawing.left && x <= drawing.right && y >= drawing.top && y <= drawing.bottom;
+
+      if (drawing.type === 'rectangle') {
+        // 内側は選択中のみ掴めるようにし、範囲内でのチャート操作を妨げない
+        const corners = [
+          { x: drawing.left, y: drawing.top },
+          { x: drawing.right, y: drawing.top },
+          { x: drawing.right, y: drawing.bottom },
+          { x: drawing.left, y: drawing.bottom }
+        ];
+        const onEdge = corners.some((corner, index) => (
+          distanceToSegment(point, corner, corners[(index + 1) % corners.length]) <= LINE_HIT_TOLERANCE
+        ));
+        if (onEdge || (inside && drawing.selected)) {
+          return { id: drawing.id, handle: 'body' };
+        }
+        continue;
+      }
+
+      if (inside) {
+        return { id: drawing.id, handle: 'body' };
+      }
+    }
+
+    return null;
+  }
+
+  getRenderedMeasurement(): RenderedMeasurement | null {
+    if (!this.measurement) {
+      return null;
+    }
+
+    const { start, end } = this.measurement;
+    const from = this.anchorToPoint(start);
+    const to = this.anchorToPoint(end);
+    const startLogical = this.toLogical(start.time);
+    const endLogical = this.toLogical(end.time);
+    if (!from || !to || startLogical === null || endLogical === null) {
+      return null;
+    }
+
+    const change = end.price - start.price;
+    const changePercent = start.price !== 0 ? (change / start.price) * 100 : 0;
+    const sign = change > 0 ? '+' : '';
+    const bars = Math.round(endLogical - startLogical);
+    const days = Math.round((end.time - start.time) / SECONDS_PER_DAY);
+    const colors = getChartColors();
+
+    return {
+      left: Math.min(from.x, to.x),
+      top: Math.min(from.y, to.y),
+      right: Math.max(from.x, to.x),
+      bottom: Math.max(from.y, to.y),
+      from,
+      to,
+      lines: [
+        `${sign}${formatPrice(change, this.pricePrecision)} (${sign}${changePercent.toFixed(2)}%)`,
+        `${bars}本 / ${days}日`
+      ],
+      color: change >= 0 ? colors.bullish.body : colors.bearish.body
+    };
+  }
+
+  getRenderedDrawings(includePreview = true): RenderedDrawing[] {
+    const result: RenderedDrawing[] = [];
+    this.drawings.forEach(drawing => {
+      const rendered = this.toRendered(drawing, false);
+      if (rendered) result.push(rendered);
+    });
+    if (includePreview && this.preview) {
+      const rendered = this.toRendered({ ...this.preview, id: '' }, true);
+      if (rendered) result.push(rendered);
+    }
+    return result;
+  }
+
+  private toRendered(drawing: AnchoredDrawing, preview: boolean): RenderedDrawing | null {
+    const selected = drawing.id !== '' && drawing.id === this.selectedId;
+
+    if (drawing.type === 'text') {
+      const point = this.anchorToPoint(drawing.anchor);
+      if (!point) {
+        return null;
+      }
+      const halfHeight = drawing.fontSize / 2 + TEXT_PADDING;
+      return {
+        type: 'text',
+        id: drawing.id,
+        left: point.x,
+        top: point.y - halfHeight,
+        right: point.x + measureTextWidth(drawing.text, drawing.fontSize) + TEXT_PADDING * 2,
+        bottom: point.y + halfHeight,
+        text: drawing.text,
+        color: drawing.color,
+        fontSize: drawing.fontSize,
+        selected,
+        preview
+      };
+    }
+
+    const start = this.anchorToPoint(drawing.start);
+    const end = this.anchorToPoint(drawing.end);
+    if (!start || !end) {
+      return null;
+    }
+
+    if (drawing.type === 'fibonacci') {
+      const levels: RenderedFibonacciLevel[] = [];
+      FIBONACCI_LEVELS.forEach(ratio => {
+        const price = fibonacciLevelPrice(drawing.start, drawing.end, ratio);
+        const y = this.series?.priceToCoordinate(price);
+        if (y !== null && y !== undefined) {
+          levels.push({ ratio, price, y });
+        }
+      });
+
+      return {
+        type: 'fibonacci',
+        id: drawing.id,
+        left: Math.min(start.x, end.x),
+        right: Math.max(start.x, end.x),
+        from: start,
+        to: end,
+        levels,
+        handles: [
+          { handle: 'start', point: start },
+          { handle: 'end', point: end }
+        ],
+        color: drawing.color,
+        width: drawing.width,
+        selected,
+        preview
+      };
+    }
+
+    if (drawing.type === 'rectangle') {
+      return {
+        type: 'rectangle',
+        id: drawing.id,
+        left: Math.min(start.x, end.x),
+        top: Math.min(start.y, end.y),
+        right: Math.max(start.x, end.x),
+        bottom: Math.max(start.y, end.y),
+        handles: [
+          { handle: 'start', point: start },
+          { handle: 'end', point: end },
+          { handle: 'start_time_end_price', point: { x: start.x, y: end.y } },
+          { handle: 'end_time_start_price', point: { x: end.x, y: start.y } }
+        ],
+        color: drawing.color,
+        width: drawing.width,
+        selected,
+        preview
+      };
+    }
+
+    let from = start;
+    let to = end;
+
+    // 右方向への延長：右側の端点から描画領域の右端まで同じ傾きで伸ばす
+    if (drawing.extendRight && start.x !== end.x && this.chart) {
+      const [left, right] = start.x < end.x ? [start, end] : [end, start];
+      const paneWidth = this.chart.timeScale().width();
+      const slope = (right.y - left.y) / (right.x - left.x);
+      from = left;
+      to = { x: paneWidth, y: right.y + (paneWidth - right.x) * slope };
+    }
+
+    return {
+      type: 'trend_line',
+      id: drawing.id,
+      from,
+      to,
+      handles: [
+        { handle: 'start', point: start },
+        { handle: 'end', point: end }
+      ],
+      color: drawing.color,
+      width: drawing.width,
+      selected,
+      preview
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import type {
+  IChartApi,
+  ISeriesApi,
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  SeriesAttachedParameter,
+  SeriesType,
+  Time
+} from 'lightweight-charts';
+import type { IndicatorPoint } from '../../lib/indicators';
+
+type RenderingTarget = Parameters<ISeriesPrimitivePaneRenderer['draw']>[0];
+
+interface CloudPoint {
+  x: number;
+  yA: number;
+  yB: number;
+  bullish: boolean;
+}
+
+export interface IchimokuCloudColors {
+  bullish: string;
+  bearish: string;
+}
+
+class IchimokuCloudRenderer implements ISeriesPrimitivePaneRenderer {
+  constructor(private points: CloudPoint[], private colors: IchimokuCloudColors) {}
+
+  draw(target: RenderingTarget) {
+    target.useMediaCoordinateSpace(({ context }) => {
+      for (let i = 1; i < this.points.length; i++) {
+        const prev = this.points[i - 1];
+        const current = this.points[i];
+
+        context.beginPath();
+        context.moveTo(prev.x, prev.yA);
+        context.lineTo(current.x, current.yA);
+        context.lineTo(current.x, current.yB);
+        context.lineTo(prev.x, prev.yB);
+        context.closePath();
+        context.fillStyle = prev.bullish ? this.colors.bullish : this.colors.bearish;
+        context.fill();
+      }
+    });
+  }
+}
+
+class IchimokuCloudPaneView implements ISeriesPrimitivePaneView {
+  constructor(private source: IchimokuCloud) {}
+
+  zOrder() {
+    return 'bottom' as const;
+  }
+
+  renderer() {
+    return new IchimokuCloudRenderer(this.source.getCloudPoints(), this.source.colors);
+  }
+}
+
+// 先行スパン1・2の間（雲）を塗りつぶすプリミティブ
+// 先行スパン1のラインシリーズにアタッチし、そのスケールで座標変換する
+export class IchimokuCloud implements ISeriesPrimitive<Time> {
+  private chart: IChartApi | null = null;
+  private series: ISeriesApi<SeriesType> | null = null;
+  private requestUpdate: (() => void) | null = null;
+  private spanB = new Map<number, number>();
+  private spanA: IndicatorPoint[] = [];
+  private readonly paneViewList: ISeriesPrimitivePaneView[];
+
+  constructor(public colors: IchimokuCloudColors) {
+    this.paneViewList = [new IchimokuCloudPaneView(this)];
+  }
+
+  attached(param: SeriesAttachedParameter<Time>) {
+    this.chart = param.chart as IChartApi;
+    this.series = param.series;
+    this.requestUpdate = param.requestUpdate;
+  }
+
+  detached() {
+    this.chart = null;
+    this.series = null;
+    this.requestUpdate = null;
+  }
+
+  setData(spanA: IndicatorPoint[], spanB: IndicatorPoint[]) {
+    this.spanA = spanA;
+    this.spanB = new Map(spanB.map(point => [point.time, point.value]));
+    this.requestUpdate?.();
+  }
+
+  paneViews() {
+    return this.paneViewList;
+  }
+
+  getCloudPoints(): CloudPoint[] {
+    if (!this.chart || !this.series) {
+      return [];
+    }
+
+    const timeScale = this.chart.timeScale();
+    const points: CloudPoint[] = [];
+
+    this.spanA.forEach(point => {
+      const spanBValue = this.spanB.get(point.time);
+      if (spanBValue === undefined) {
+        return;
+      }
+
+      const x = timeScale.timeToCoordinate(point.time as Time);
+      const yA = this.series!.priceToCoordinate(point.value);
+      const yB = this.series!.priceToCoordinate(spanBValue);
+      if (x === null || yA === null || yB === null) {
+        return;
+      }
+
+      points.push({ x, yA, yB, bullish: point.value >= spanBValue });
+    });
+
+    return points;
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { PriceBar } from '../../lib/indicators';
+import { truncateBarsForReplay } from './replay';
+
+const date = (value: string) => Date.parse(`${value}T00:00:00Z`) / 1000;
+
+const bar = (time: number, open: number, high: number, low: number, close: number, volume = 100): PriceBar => ({
+  time,
+  open,
+  high,
+  low,
+  close,
+  volume
+});
+
+// 2024-01-08（月）〜 2024-01-12（金）の日足
+const dailyBars = [
+  bar(date('2024-01-08'), 100, 105, 98, 104),
+  bar(date('2024-01-09'), 104, 110, 103, 109),
+  bar(date('2024-01-10'), 109, 112, 95, 96),
+  bar(date('2024-01-11'), 96, 99, 94, 97),
+  bar(date('2024-01-12'), 97, 120, 96, 118)
+];
+
+describe('truncateBarsForReplay', () => {
+  it('日足はリプレイ日までのバーをそのまま返す', () => {
+    const visible = truncateBarsForReplay(dailyBars, '1D', date('2024-01-10'), dailyBars);
+    expect(visible).toEqual(dailyBars.slice(0, 3));
+  });
+
+  it('週足の最後の足は、週の開始日からリプレイ日までの日足で作り直す', () => {
+    const weeklyBars = [
+      bar(date('2023-12-31'), 90, 101, 88, 100, 500),
+      // 週全体の値（リプレイ中に見えてはいけない高値 120・終値 118 を含む）
+      bar(date('2024-01-07'), 100, 120, 94, 118, 500)
+    ];
+
+    const visible = truncateBarsForReplay(weeklyBars, '1W', date('2024-01-10'), dailyBars);
+    expect(visible).toEqual([
+      weeklyBars[0],
+      bar(date('2024-01-07'), 100, 112, 95, 96, 300)
+    ]);
+  });
+
+  it('月足の最後の足も、月初からリプレイ日までの日足で作り直す', () => {
+    const monthlyBars = [
+      bar(date('2023-12-01'), 80, 100, 78, 99, 2000),
+      bar(date('2024-01-01'), 99, 130, 90, 125, 2000),
+      bar(date('2024-02-01'), 125, 140, 120, 135, 2000)
+    ];
+
+    const visible = truncateBarsForReplay(monthlyBars, '1M', date('2024-01-09'), dailyBars);
+    expect(visible).toEqual([
+      monthlyBars[0],
+      bar(date('2024-01-01'), 100, 110, 98, 109, 200)
+    ]);
+  });
+
+  it('日足が読み込めていなければ途中の週足・月足は表示しない', () => {
+    const weeklyBars = [
+      bar(date('2023-12-31'), 90, 101, 88, 100),
+      bar(date('2024-01-07'), 100, 120, 94, 118)
+    ];
+
+    expect(truncateBarsForReplay(weeklyBars, '1W', date('2024-01-10'), [])).toEqual([weeklyBars[0]]);
+  });
+
+  it('60分足はリプレイ日の立会時間の足まで表示する', () => {
+    // 60分足の時刻は JST の日時を UTC として扱う
+    const jst = (value: string) => Date.parse(`${value}Z`) / 1000;
+    const hourlyBars = [
+      bar(jst('2024-01-09T14:30:00'), 1, 1, 1, 1),
+      bar(jst('2024-01-10T09:00:00'), 1, 1, 1, 1),
+      bar(jst('2024-01-10T14:30:00'), 1, 1, 1, 1),
+      bar(jst('2024-01-11T09:00:00'), 1, 1, 1, 1)
+    ];
+
+    const visible = truncateBarsForReplay(hourlyBars, '60m', date('2024-01-10'), dailyBars);
+    expect(visible).toEqual(hourlyBars.slice(0, 3));
+  });
+});
@@ -0,0 +1,58 @@
+// チャートリプレイ：過去の日付までバーを切り詰め、日足を1本ずつ進めて検証する
+// 週足・月足はリプレイ日を含む期間の足を、その期間の日足から途中の状態で作り直す
+import type { PriceBar } from '../../lib/indicators';
+import type { TimeFrame } from '../types';
+
+const ONE_DAY_SECONDS = 24 * 60 * 60;
+
+// 開始日から先に進められる期間（日数）
+export const REPLAY_SPAN_DAYS = 365;
+// 開始日を含む月の途中の月足を作れるよう、開始日より前から読み込む日足の日数
+export const REPLAY_DAILY_LOOKBACK_DAYS = 40;
+
+// 自動再生の速度（1本進める間隔）
+export const REPLAY_SPEEDS = [
+  { label: '0.5x', intervalMs: 2000 },
+  { label: '1x', intervalMs: 1000 },
+  { label: '2x', intervalMs: 500 },
+  { label: '5x', intervalMs: 200 }
+];
+
+export const DEFAULT_REPLAY_INTERVAL_MS = 1000;
+
+// 日時を含む日の 0時（UTC）
+export const startOfDay = (time: number) => Math.floor(time / ONE_DAY_SECONDS) * ONE_DAY_SECONDS;
+
+// 日足をまとめて、期間の開始時刻を持つ1本の足にする
+const aggregateBars = (time: number, bars: PriceBar[]): PriceBar => ({
+  time,
+  open: bars[0].open,
+  high: Math.max(...bars.map(bar => bar.high)),
+  low: Math.min(...bars.map(bar => bar.low)),
+  close: bars[bars.length - 1].close,
+  volume: bars.reduce((sum, bar) => sum + (bar.volume ?? 0), 0)
+});
+
+// リプレイ日（日足のバーの時刻）までに確定していたバーだけを返す
+export const truncateBarsForReplay = (
+  bars: PriceBar[],
+  timeFrame: TimeFrame,
+  replayTime: number,
+  dailyBars: PriceBar[]
+): PriceBar[] => {
+  if (timeFrame === '60m') {
+    return bars.filter(bar => bar.time < replayTime + ONE_DAY_SECONDS);
+  }
+
+  const visible = bars.filter(bar => bar.time <= replayTime);
+  if (timeFrame === '1D' || visible.length === 0) {
+    return visible;
+  }
+
+  // 最後の週足・月足はリプレイ日を含む期間の足なので、期間の開始日からリプレイ日までの日足で作り直す
+  // 日足が読み込めていない間は、先の値が見えないよう途中の足を表示しない
+  const current = visible[visible.length - 1];
+  const partial = dailyBars.filter(bar => bar.time >= current.time && bar.time <= replayTime);
+  const completed = visible.slice(0, -1);
+  return partial.length > 0 ? [...completed, aggregateBars(current.time, partial)] : completed;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { findSyncedBarTime, toBarTime } from './timeMapping';
+
+const date = (value: string) => Date.parse(`${value}T00:00:00Z`) / 1000;
+
+// 週足は日曜日、日足は営業日のバーの時刻
+const weeklyTimes = [date('2023-12-31'), date('2024-01-07'), date('2024-01-14')];
+const dailyTimes = [date('2024-01-04'), date('2024-01-05'), date('2024-01-09'), date('2024-01-10')];
+
+describe('toBarTime', () => {
+  it('日付だけならその日の 0時（UTC）', () => {
+    expect(toBarTime('2024-01-10')).toBe(date('2024-01-10'));
+  });
+
+  it('60分足の JST の日時は、JST の時刻を UTC として扱う', () => {
+    expect(toBarTime('2024-01-10T09:00:00+09:00')).toBe(Date.parse('2024-01-10T09:00:00Z') / 1000);
+    expect(toBarTime('2024-01-10T12:30:00+09:00')).toBe(Date.parse('2024-01-10T12:30:00Z') / 1000);
+    // 同じ日の日足と日付が一致する
+    expect(Math.floor(toBarTime('2024-01-10T14:30:00+09:00') / 86400) * 86400).toBe(date('2024-01-10'));
+  });
+});
+
+describe('findSyncedBarTime', () => {
+  it('細かい時間足の時刻は、それを含む期間のバーに合わせる', () => {
+    expect(findSyncedBarTime(weeklyTimes, date('2024-01-10'), false)).toBe(date('2024-01-07'));
+    expect(findSyncedBarTime(weeklyTimes, date('2024-01-07'), false)).toBe(date('2024-01-07'));
+    expect(findSyncedBarTime(weeklyTimes, date('2024-01-20'), false)).toBe(date('2024-01-14'));
+  });
+
+  it('最初のバーより前の時刻は対応するバーがない', () => {
+    expect(findSyncedBarTime(weeklyTimes, date('2023-12-30'), false)).toBeNull();
+  });
+
+  it('粗い時間足の時刻は、その期間の最初のバーに合わせる', () => {
+    // 2024-01-07 週の最初の営業日は 9日（8日は祝日）
+    expect(findSyncedBarTime(dailyTimes, date('2024-01-07'), true)).toBe(date('2024-01-09'));
+    expect(findSyncedBarTime(dailyTimes, date('2024-01-05'), true)).toBe(date('2024-01-05'));
+    expect(findSyncedBarTime(dailyTimes, date('2023-12-31'), true)).toBe(date('2024-01-04'));
+  });
+
+  it('粗い時間足の時刻が最後のバーより後なら対応するバーがない', () => {
+    expect(findSyncedBarTime(dailyTimes, date('2024-01-14'), true)).toBeNull();
+  });
+
+  it('バーがなければ null', () => {
+    expect(findSyncedBarTime([], date('2024-01-07'), false)).toBeNull();
+  });
+});
+
+describe('findSyncedBarTime（60分足）', () => {
+  const hourlyTimes = ['09:00', '10:00', '11:00', '12:30', '13:30', '14:30']
+    .map(time => toBarTime(`2024-01-10T${time}:00+09:00`));
+
+  it('日足の時刻は、その日の最初の60分足に合わせる', () => {
+    expect(findSyncedBarTime(hourlyTimes, date('2024-01-10'), true)).toBe(hourlyTimes[0]);
+  });
+
+  it('60分足の時刻は、その日の日足に合わせる', () => {
+    expect(findSyncedBarTime(dailyTimes, hourlyTimes[3], false)).toBe(date('2024-01-10'));
+  });
+});
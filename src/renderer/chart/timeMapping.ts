@@ -0,0 +1,98 @@
+// 時刻（UNIX秒）と論理インデックス（バー番号）の相互変換
+// 描画オブジェクトは時刻で保存するため、別の時間足や最終バーより先の位置にも
+// バー間を線形補間・外挿して配置できるようにする
+
+const DEFAULT_BAR_SPACING_SECONDS = 24 * 60 * 60;
+const JST_OFFSET_SECONDS = 9 * 60 * 60;
+
+// 株価データの日付をバーの時刻にする
+// 日足以上の 'YYYY-MM-DD' はその日の 0時（UTC）。60分足の '+09:00' 付きの日時は、
+// 時間軸とクロスヘアに東京の時刻が表示され、同じ日の日足とも対応付くよう JST の時刻を UTC として扱う
+export const toBarTime = (date: string): number => {
+  const seconds = Math.floor(new Date(date).getTime() / 1000);
+  return date.length > 10 ? seconds + JST_OFFSET_SECONDS : seconds;
+};
+
+const averageSpacing = (barTimes: number[]): number => {
+  if (barTimes.length < 2) {
+    return DEFAULT_BAR_SPACING_SECONDS;
+  }
+  return (barTimes[barTimes.length - 1] - barTimes[0]) / (barTimes.length - 1);
+};
+
+// time 以下で最大のバーのインデックス（二分探索）
+const findBarIndex = (barTimes: number[], time: number): number => {
+  let low = 0;
+  let high = barTimes.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (barTimes[mid] <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+};
+
+export const timeToLogical = (barTimes: number[], time: number): number | null => {
+  if (barTimes.length === 0) {
+    return null;
+  }
+
+  const first = barTimes[0];
+  const lastIndex = barTimes.length - 1;
+  const last = barTimes[lastIndex];
+
+  if (time <= first) {
+    return (time - first) / averageSpacing(barTimes);
+  }
+  if (time >= last) {
+    return lastIndex + (time - last) / averageSpacing(barTimes);
+  }
+
+  const index = findBarIndex(barTimes, time);
+  const span = barTimes[index + 1] - barTimes[index];
+  return index + (span > 0 ? (time - barTimes[index]) / span : 0);
+};
+
+export const logicalToTime = (barTimes: number[], logical: number): number | null => {
+  if (barTimes.length === 0) {
+    return null;
+  }
+
+  const lastIndex = barTimes.length - 1;
+
+  if (logical <= 0) {
+    return Math.round(barTimes[0] + logical * averageSpacing(barTimes));
+  }
+  if (logical >= lastIndex) {
+    return Math.round(barTimes[lastIndex] + (logical - lastIndex) * averageSpacing(barTimes));
+  }
+
+  const index = Math.floor(logical);
+  const fraction = logical - index;
+  return Math.round(barTimes[index] + fraction * (barTimes[index + 1] - barTimes[index]));
+};
+
+// 別の時間足のバーの時刻を、このチャートのバーの時刻に対応付ける（クロスヘア同期用）
+// バーの時刻は期間の開始日（週足: 日曜日、月足: 1日）なので、
+// 細かい時間足から来た時刻はそれを含む期間のバーに、粗い時間足から来た時刻はその期間の最初のバーに合わせる
+export const findSyncedBarTime = (barTimes: number[], time: number, sourceIsCoarser: boolean): number | null => {
+  if (barTimes.length === 0) {
+    return null;
+  }
+
+  if (sourceIsCoarser) {
+    if (time > barTimes[barTimes.length - 1]) {
+      return null;
+    }
+    const index = time <= barTimes[0] ? 0 : findBarIndex(barTimes, time);
+    return barTimes[index] >= time ? barTimes[index] : barTimes[index + 1];
+  }
+
+  if (time < barTimes[0]) {
+    return null;
+  }
+  return barTimes[findBarIndex(barTimes, time)];
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import type { PriceAlertHit } from '../../lib/types';
+import { PRICE_ALERT_LABELS } from '../../lib/price-alerts';
+
+interface AlertInboxProps {
+  alerts: PriceAlertHit[];
+  onSelectTicker: (ticker: string) => void;
+  onMarkAllRead: () => void;
+  onClear: () => void;
+}
+
+export const AlertInbox: React.FC<AlertInboxProps> = ({
+  alerts,
+  onSelectTicker,
+  onMarkAllRead,
+  onClear
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const unreadCount = alerts.filter(alert => !alert.read).length;
+
+  const toggleOpen = () => {
+    // 閉じるときに既読にする
+    if (isOpen && unreadCount > 0) {
+      onMarkAllRead();
+    }
+    setIsOpen(prev => !prev);
+  };
+
+  return (
+    <div className="alert-inbox">
+      <button className="hl-settings-button" onClick={toggleOpen} title="価格アラート">
+        <i className="fas fa-bell"></i> アラート
+        {unreadCount > 0 && <span className="alert-inbox-badge">{unreadCount}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="alert-inbox-panel">
+          <div className="alert-inbox-header">
+            <span>価格アラート</span>
+            <button className="alert-inbox-clear" onClick={onClear} disabled={alerts.length === 0}>
+              すべて削除
+            </button>
+          </div>
+
+          {alerts.length === 0 ? (
+            <div className="alert-inbox-empty">
+              水平線の設定からアラートを追加できます
+            </div>
+          ) : (
+            <ul className="alert-inbox-list">
+              {alerts.map(alert => (
+                <li
+                  key={alert.id}
+                  className={`alert-inbox-item ${alert.read ? '' : 'unread'}`}
+                  onClick={() => onSelectTicker(alert.ticker)}
+                >
+                  <div className="alert-inbox-title">
+                    {alert.ticker} が {alert.price.toLocaleString()} を{PRICE_ALERT_LABELS[alert.condition]}
+                  </div>
+                  <div className="alert-inbox-detail">
+                    {alert.date} 終値 {alert.close.toLocaleString()}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertInbox;
@@ -1,25 +1,90 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { createChart, IChartApi, ISeriesApi, CandlestickData, IPriceLine } from 'lightweight-charts';
-import { TimeFrame } from '../types';
-import { getChartColors } from '../config/chartColors';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { createChart, IChartApi, ISeriesApi, CandlestickData, IPriceLine, PriceScaleMode } from 'lightweight-charts';
+import { TimeFrame, DrawingTool } from '../types';
+import { getChartColors, withAlpha } from '../config/chartColors';
+import { findSyncedBarTime, toBarTime } from '../chart/timeMapping';
+import { REPLAY_DAILY_LOOKBACK_DAYS, REPLAY_SPAN_DAYS, truncateBarsForReplay } from '../chart/replay';
 import { database } from '../../lib/database';
-import type { HorizontalLineSettings } from '../../lib/types';
+import { drawingHistory } from '../../lib/drawing-history';
+import {
+  calculateMovingAverage,
+  calculateVolumeSMA,
+  calculateRSI,
+  calculateMACD,
+  calculateSlowStochastics,
+  calculateIchimoku,
+  calculateBollingerBands,
+  calculateHeikinAshi,
+  calculateRelativeStrengthLine,
+  generateFutureTimes,
+  IndicatorPoint,
+  PriceBar
+} from '../../lib/indicators';
+import type {
+  ChartStyle,
+  HorizontalLineSettings,
+  MovingAverageConfig,
+  OscillatorType,
+  PriceAlertCondition,
+  PriceOverlayType
+} from '../../lib/types';
+import { PRICE_ALERT_LABELS } from '../../lib/price-alerts';
+import { RS_BENCHMARK_SYMBOL } from '../../lib/relative-strength';
+import {
+  DEFAULT_PRICE_PRECISION,
+  PricePrecision,
+  detectTickTableType,
+  formatPrice,
+  getPricePrecision,
+  roundToTick
+} from '../../lib/price-precision';
+import MovingAverageEditor from './MovingAverageEditor';
+import { IchimokuCloud } from '../chart/IchimokuCloud';
+import {
+  DrawingLayer,
+  AnchoredDrawing,
+  DrawingAnchor,
+  DrawingDraft,
+  DrawingHandle,
+  DrawingPreview,
+  drawingGeometry,
+  moveDrawing,
+  resizeDrawing
+} from '../chart/DrawingLayer';
 
 interface ChartPaneProps {
   ticker: string;
+  market?: string; // 市場区分（呼値の単位の表を選ぶのに使う）
   timeFrame: TimeFrame;
+  onTimeFrameChange?: (timeFrame: TimeFrame) => void;
   title: string;
+  paneId: string; // クロスヘア同期でペインを区別するキー（同じ時間足のペインが複数あっても区別できる）
+  onDetach?: () => void; // 別ウィンドウに切り出す
   delay?: number; // 遅延読み込みのミリ秒
-  onCrosshairMove?: (price: number | null, time: any, sourceChart: string) => void;
+  onCrosshairMove?: (price: number | null, time: any, sourceChart: string, sourceTimeFrame: TimeFrame) => void;
   syncedPrice?: number | null;
   syncedTime?: any;
   sourceChart?: string; // 同期の送信者を識別
-  horizontalLineMode?: boolean;
+  sourceTimeFrame?: TimeFrame | null; // 同期の送信者の時間足
+  drawingTool?: DrawingTool | null;
   onHorizontalLineAdded?: () => void;
   horizontalLineUpdate?: number; // 更新トリガー
+  measureResetKey?: number; // 変わると測定表示を消す（Escape）
+  replayStartTime?: number | null; // リプレイの開始日（日足のバーの時刻）
+  replayTime?: number | null; // リプレイで表示している日（この日までのバーだけを表示する）
+  isPickingReplayStart?: boolean; // クリックでリプレイの開始日を選ぶモード
+  onReplayStartPick?: (time: number) => void;
   lineSettings: HorizontalLineSettings;
   userId?: string;
-  onToggleHorizontalMode: () => void;
+  onToggleHorizontalMode?: () => void;
+  movingAverages?: MovingAverageConfig[];
+  onMovingAveragesChange?: (timeFrame: TimeFrame, configs: MovingAverageConfig[]) => void;
+  oscillator?: OscillatorType;
+  onOscillatorChange?: (oscillator: OscillatorType) => void;
+  priceOverlays?: PriceOverlayType[];
+  onPriceOverlaysChange?: (timeFrame: TimeFrame, overlays: PriceOverlayType[]) => void;
+  chartStyle?: ChartStyle;
+  onChartStyleChange?: (style: ChartStyle) => void;
 }
 
 interface HorizontalLine {
@@ -27,40 +92,398 @@ interface HorizontalLine {
   price: number;
   color: string;
   width: number;
+  allTimeframes: boolean;
+  alert: PriceAlertCondition | null;
   priceLine?: IPriceLine;
 }
 
+// アラート付きの水平線は価格ラベルにベルを表示する
+const priceLineTitle = (alert: PriceAlertCondition | null) => (alert ? '🔔' : '');
+
+// 出来高は下部 20% に別スケールで表示し、ローソク足はその上に収める
+// オシレーター表示時はさらに下部 25% をオシレーター用に確保する
+const VOLUME_PRICE_SCALE_ID = 'volume';
+const OSCILLATOR_PRICE_SCALE_ID = 'oscillator';
+const VOLUME_MA_PERIOD = 25;
+const CANDLE_SCALE_MARGINS = { top: 0.05, bottom: 0.25 };
+const VOLUME_SCALE_MARGINS = { top: 0.8, bottom: 0 };
+const CANDLE_SCALE_MARGINS_WITH_OSCILLATOR = { top: 0.05, bottom: 0.45 };
+const VOLUME_SCALE_MARGINS_WITH_OSCILLATOR = { top: 0.57, bottom: 0.3 };
+const OSCILLATOR_SCALE_MARGINS = { top: 0.75, bottom: 0.02 };
+
+const OSCILLATOR_OPTIONS: { value: OscillatorType; label: string }[] = [
+  { value: 'none', label: 'なし' },
+  { value: 'rsi', label: 'RSI(14)' },
+  { value: 'macd', label: 'MACD(12,26,9)' },
+  { value: 'stochastics', label: 'スローストキャス' },
+  { value: 'rs_line', label: 'RSライン(対TOPIX)' }
+];
+
+const PRICE_OVERLAY_OPTIONS: { value: PriceOverlayType; label: string; description: string }[] = [
+  { value: 'ichimoku', label: '一目', description: '一目均衡表' },
+  { value: 'bollinger', label: 'BB', description: 'ボリンジャーバンド(20, ±1σ/±2σ/±3σ)' }
+];
+
+const ICHIMOKU_DISPLACEMENT = 26;
+
+// マグネットで吸着させる距離（px）
+const MAGNET_TOLERANCE = 12;
+
+// 時間足の粗さの順（クロスヘア同期で期間の対応付けに使う）
+const TIMEFRAME_RANK: Record<TimeFrame, number> = {
+  '60m': 0,
+  '1D': 1,
+  '1W': 2,
+  '1M': 3
+};
+
+const findBarAt = (bars: PriceBar[], time: number): PriceBar | null => {
+  let low = 0;
+  let high = bars.length - 1;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (bars[mid].time === time) {
+      return bars[mid];
+    }
+    if (bars[mid].time < time) {
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return null;
+};
+
+// 右の価格スケールの表示モード（パーセントは表示中の最初のバーを基準にした騰落率）
+type PriceScaleDisplayMode = 'normal' | 'log' | 'percent';
+
+const PRICE_SCALE_MODE_OPTIONS: { value: Exclude<PriceScaleDisplayMode, 'normal'>; label: string; description: string }[] = [
+  { value: 'log', label: 'Log', description: '対数目盛' },
+  { value: 'percent', label: '%', description: '表示範囲の最初のバーからの騰落率' }
+];
+
+const PRICE_SCALE_MODES: Record<PriceScaleDisplayMode, PriceScaleMode> = {
+  normal: PriceScaleMode.Normal,
+  log: PriceScaleMode.Logarithmic,
+  percent: PriceScaleMode.Percentage
+};
+
+// 比較表示のプリセット（指数は連動ETFで代用）
+const COMPARE_PRESETS: { symbol: string; label: string }[] = [
+  { symbol: '1306', label: 'TOPIX（1306）' },
+  { symbol: '1321', label: '日経225（1321）' }
+];
+const COMPARE_COLORS = ['#FF9800', '#9C27B0', '#009688', '#795548', '#E91E63'];
+const MAX_COMPARE_SYMBOLS = COMPARE_COLORS.length;
+
+const TIME_FRAME_OPTIONS: { value: TimeFrame; label: string }[] = [
+  { value: '60m', label: '60分足' },
+  { value: '1D', label: '日足' },
+  { value: '1W', label: '週足' },
+  { value: '1M', label: '月足' }
+];
+
+const CHART_STYLE_OPTIONS: { value: ChartStyle; label: string }[] = [
+  { value: 'candlestick', label: 'ローソク足' },
+  { value: 'heikin_ashi', label: '平均足' },
+  { value: 'line', label: 'ライン' },
+  { value: 'area', label: 'エリア' },
+  { value: 'bar', label: 'バー' }
+];
+
+// ライン・エリア・バー表示ではローソク足を透明にして、その上に別のシリーズで描く
+// （水平線・描画オブジェクトはローソク足のシリーズに付いているため、シリーズ自体は残す）
+const OVERLAID_CHART_STYLES: ChartStyle[] = ['line', 'area', 'bar'];
+
+// 初回に読み込む本数（日足: 約5ヶ月分、週足: 約2年分、月足: 約8年分）
+const INITIAL_BAR_LIMIT = 100;
+// 左端からこの本数以内までスクロールしたら、過去のバーを追加で読み込む
+const SCROLL_BACK_THRESHOLD = 10;
+// 1回の追加読み込みで遡る日数（どの時間足でも約100本分）
+const ONE_DAY_SECONDS = 24 * 60 * 60;
+const SCROLL_BACK_DAYS: Record<TimeFrame, number> = {
+  '60m': 30,
+  '1D': 150,
+  '1W': 730,
+  '1M': 3000
+};
+
+const toDateString = (time: number) => new Date(time * 1000).toISOString().slice(0, 10);
+
+// 株価データを時刻昇順・重複なしの PriceBar に変換する
+const toPriceBars = (stockData: any[]): PriceBar[] => stockData
+  .sort((a: any, b: any) => toBarTime(a.date) - toBarTime(b.date))
+  .map((data: any) => ({
+    time: toBarTime(data.date),
+    open: Number(data.open),
+    high: Number(data.high),
+    low: Number(data.low),
+    close: Number(data.close),
+    volume: Number(data.volume) || 0
+  }))
+  .filter((data, index, array) =>
+    index === 0 || data.time !== array[index - 1].time
+  );
+
+const toCandlestickData = (bars: PriceBar[]): CandlestickData[] => bars.map(bar => ({
+  time: bar.time as any,
+  open: bar.open,
+  high: bar.high,
+  low: bar.low,
+  close: bar.close
+}));
+
+// オシレーターの各ラインとMACDのヒストグラム（描画と凡例の値表示で共有する）
+interface OscillatorLine {
+  label: string;
+  color: string;
+  points: IndicatorPoint[];
+  guideLevels?: number[];
+}
+
+interface OscillatorData {
+  lines: OscillatorLine[];
+  histogram: IndicatorPoint[];
+}
+
+// 凡例に表示するインジケーターの値（時刻 → 値）
+interface LegendIndicator {
+  key: string;
+  label: string;
+  color: string;
+  values: Map<number, number>;
+  isPrice: boolean; // 価格と同じ精度で表示する（移動平均線）
+}
+
+const formatLegendNumber = (value: number, fractionDigits = 2) => value.toLocaleString(undefined, {
+  minimumFractionDigits: 0,
+  maximumFractionDigits: fractionDigits
+});
+
+const formatLegendPrice = (value: number, precision: number) => value.toLocaleString(undefined, {
+  minimumFractionDigits: precision,
+  maximumFractionDigits: precision
+});
+
+const toPriceFormat = ({ precision, minMove }: PricePrecision) => ({ type: 'price' as const, precision, minMove });
+
+const formatLegendDate = (time: number, timeFrame: TimeFrame) => {
+  const iso = new Date(time * 1000).toISOString();
+  return timeFrame === '60m' ? `${iso.slice(0, 10)} ${iso.slice(11, 16)}` : iso.slice(0, 10);
+};
+const BOLLINGER_COLORS: Record<number, string> = {
+  1: '#5DA9FF',
+  2: '#0055FF',
+  3: '#6A5ACD'
+};
+
+const toLineData = (points: IndicatorPoint[]) => {
+  return points.map(point => ({ time: point.time as any, value: point.value }));
+};
+
+// propsの既定値を毎回生成すると移動平均線の再描画が走るため、共有の空配列を使う
+const NO_MOVING_AVERAGES: MovingAverageConfig[] = [];
+const NO_PRICE_OVERLAYS: PriceOverlayType[] = [];
+
+type EditableDrawingType = DrawingTool;
+
+const DRAWING_LABELS: Record<EditableDrawingType, string> = {
+  horizontal_line: '水平線',
+  trend_line: 'トレンドライン',
+  rectangle: '四角形',
+  text: 'テキスト',
+  fibonacci: 'フィボナッチ'
+};
+
+const DRAWING_MODE_ICONS: Record<DrawingTool, string> = {
+  horizontal_line: '📏',
+  trend_line: '📐',
+  rectangle: '▭',
+  text: '🅰',
+  fibonacci: '🌀'
+};
+
+const DEFAULT_TEXT_FONT_SIZE = 14;
+
+// 保存データから描画オブジェクトを復元する（アンカーが欠けているものは捨てる）
+const toAnchoredDrawing = (
+  drawing: { id: string; type: string; data: Record<string, any> },
+  defaults: HorizontalLineSettings
+): AnchoredDrawing | null => {
+  const { id, data } = drawing;
+  const color = data.color || defaults.color;
+  const width = Number.isFinite(data.width) ? Number(data.width) : defaults.width;
+  const allTimeframes = data.allTimeframes !== false;
+
+  switch (drawing.type) {
+    case 'trend_line':
+      return data.start && data.end
+        ? {
+          type: 'trend_line',
+          id,
+          start: data.start,
+          end: data.end,
+          color,
+          width,
+          extendRight: Boolean(data.extendRight),
+          allTimeframes
+        }
+        : null;
+    case 'rectangle':
+    case 'fibonacci':
+      return data.start && data.end
+        ? { type: drawing.type, id, start: data.start, end: data.end, color, width, allTimeframes }
+        : null;
+    case 'text':
+      return data.anchor
+        ? {
+          type: 'text',
+          id,
+          allTimeframes,
+          anchor: data.anchor,
+          text: String(data.text ?? ''),
+          color,
+          fontSize: Number.isFinite(data.fontSize) ? Number(data.fontSize) : DEFAULT_TEXT_FONT_SIZE
+        }
+        : null;
+    default:
+      return null;
+  }
+};
+
 const ChartPane: React.FC<ChartPaneProps> = ({ 
   ticker, 
+  market,
   timeFrame, 
+  onTimeFrameChange,
   title, 
+  paneId,
+  onDetach,
   delay = 0, 
   onCrosshairMove,
   syncedPrice,
   syncedTime,
   sourceChart,
-  horizontalLineMode = false,
+  sourceTimeFrame = null,
+  drawingTool = null,
   onHorizontalLineAdded,
   horizontalLineUpdate = 0,
+  measureResetKey = 0,
+  replayStartTime = null,
+  replayTime = null,
+  isPickingReplayStart = false,
+  onReplayStartPick,
   lineSettings,
   userId,
-  onToggleHorizontalMode
+  movingAverages = NO_MOVING_AVERAGES,
+  onMovingAveragesChange,
+  oscillator = 'none',
+  onOscillatorChange,
+  priceOverlays = NO_PRICE_OVERLAYS,
+  onPriceOverlaysChange,
+  chartStyle = 'candlestick',
+  onChartStyleChange
 }) => {
+  const horizontalLineMode = drawingTool === 'horizontal_line';
+  // 2点をクリックして描く図形のツール
+  const twoPointTool = drawingTool === 'trend_line' || drawingTool === 'rectangle' || drawingTool === 'fibonacci'
+    ? drawingTool
+    : null;
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const seriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
+  const maSeriesRef = useRef<ISeriesApi<'Line'>[]>([]);
+  const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
+  const volumeMaSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
+  const oscillatorSeriesRef = useRef<ISeriesApi<'Line' | 'Histogram'>[]>([]);
+  const overlaySeriesRef = useRef<ISeriesApi<'Line'>[]>([]);
+  const drawingLayerRef = useRef<DrawingLayer | null>(null);
+  const styleSeriesRef = useRef<ISeriesApi<'Line' | 'Area' | 'Bar'> | null>(null);
+  const chartStyleRef = useRef<ChartStyle>(chartStyle);
+  const [priceData, setPriceData] = useState<PriceBar[]>([]);
+  const priceDataRef = useRef<PriceBar[]>([]);
+  // 読み込んだすべてのバー（リプレイ中は priceData がリプレイ日までに切り詰められる）
+  const loadedBarsRef = useRef<PriceBar[]>([]);
+  // 週足・月足の途中の足を作るための日足（リプレイ中のみ）
+  const [replayDailyBars, setReplayDailyBars] = useState<PriceBar[]>([]);
+  const replayViewRef = useRef({ time: replayTime, dailyBars: replayDailyBars });
+  replayViewRef.current = { time: replayTime, dailyBars: replayDailyBars };
+  // 読み込んだバーの期間（比較銘柄などは、この期間の日付で取得して時刻を揃える）
+  const [loadedRange, setLoadedRange] = useState<{ from: number; to: number } | null>(null);
+  // 比較銘柄など他の銘柄のバー（銘柄・時間足ごとに、取得済みの期間とあわせてキャッシュする）
+  const rangeBarsCacheRef = useRef(new Map<string, { from: number; to: number; bars: PriceBar[] }>());
+
+  // 呼値の単位に合わせた価格の表示精度
+  const tickTable = useMemo(
+    () => detectTickTableType(market, priceData.flatMap(bar => [bar.open, bar.high, bar.low, bar.close])),
+    [priceData, market]
+  );
+  const pricePrecision = useMemo((): PricePrecision => {
+    if (priceData.length === 0) {
+      return DEFAULT_PRICE_PRECISION;
+    }
+    return getPricePrecision(Math.min(...priceData.map(bar => bar.low)), tickTable);
+  }, [priceData, tickTable]);
+  const pricePrecisionRef = useRef(pricePrecision);
+  pricePrecisionRef.current = pricePrecision;
+  const timeFrameRef = useRef(timeFrame);
+  timeFrameRef.current = timeFrame;
+  const paneIdRef = useRef(paneId);
+  paneIdRef.current = paneId;
+  // クロスヘア位置のバー（ヘッダーに四本値を表示する）
+  const [hoveredBar, setHoveredBar] = useState<PriceBar | null>(null);
+  // 過去方向の追加読み込みの状態（銘柄・時間足を切り替えるたびにリセット）
+  // rangeFrom は直前の表示範囲の左端（左方向へのスクロールだけで読み込むため。読み込み直後は null）
+  const historyLoadRef = useRef<{ generation: number; loading: boolean; exhausted: boolean; rangeFrom: number | null }>({
+    generation: 0,
+    loading: false,
+    exhausted: false,
+    rangeFrom: null
+  });
+  const [isMaEditorOpen, setIsMaEditorOpen] = useState(false);
+  const [benchmarkData, setBenchmarkData] = useState<PriceBar[]>([]);
+  const [priceScaleMode, setPriceScaleMode] = useState<PriceScaleDisplayMode>('normal');
+  const [compareSymbols, setCompareSymbols] = useState<string[]>([]);
+  const [compareBars, setCompareBars] = useState<Record<string, PriceBar[]>>({});
+  const [isCompareMenuOpen, setIsCompareMenuOpen] = useState(false);
+  const [compareInput, setCompareInput] = useState('');
+  // 比較表示中は騰落率で重ねるため、パーセント表示に固定する
+  const effectivePriceScaleMode: PriceScaleDisplayMode = compareSymbols.length > 0 ? 'percent' : priceScaleMode;
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [horizontalLines, setHorizontalLines] = useState<HorizontalLine[]>([]);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; lineId?: string } | null>(null);
-  const [lineEditorState, setLineEditorState] = useState<{ open: boolean; lineId: string | null }>({ open: false, lineId: null });
+  const [lineEditorState, setLineEditorState] = useState<{
+    open: boolean;
+    lineId: string | null;
+    textAnchor?: DrawingAnchor; // 新規テキストの配置位置（テキストツール使用時）
+  }>({ open: false, lineId: null });
   const [editorColor, setEditorColor] = useState(lineSettings.color);
   const [editorWidth, setEditorWidth] = useState(lineSettings.width);
+  const [editorExtendRight, setEditorExtendRight] = useState(false);
+  const [editorAllTimeframes, setEditorAllTimeframes] = useState(true);
+  const [editorAlert, setEditorAlert] = useState<PriceAlertCondition | null>(null);
+  const [editorPrice, setEditorPrice] = useState('');
+  const [editorText, setEditorText] = useState('');
+  const [editorFontSize, setEditorFontSize] = useState(DEFAULT_TEXT_FONT_SIZE);
   const [selectedLineId, setSelectedLineId] = useState<string | null>(null);
   const [handleY, setHandleY] = useState<number | null>(null);
+  const [drawings, setDrawings] = useState<AnchoredDrawing[]>([]);
+  const [selectedDrawingId, setSelectedDrawingId] = useState<string | null>(null);
 
   const draggingLineRef = useRef<{ lineId: string; offset: number } | null>(null);
   const horizontalLinesRef = useRef<HorizontalLine[]>([]);
+  const drawingsRef = useRef<AnchoredDrawing[]>([]);
+  const pendingAnchorRef = useRef<DrawingAnchor | null>(null);
+  const drawingDragRef = useRef<{
+    id: string;
+    handle: DrawingHandle;
+    pointerLogical: number;
+    pointerY: number;
+    original: AnchoredDrawing;
+  } | null>(null);
+  // Shift+ドラッグで測定中の始点
+  const measureStartRef = useRef<DrawingAnchor | null>(null);
   const dragHappenedRef = useRef(false);
   const doubleClickRef = useRef(false);
 
@@ -86,6 +509,12 @@ const ChartPane: React.FC<ChartPaneProps> = ({
     setHandleY(coord);
   }, [selectedLineId]);
 
+  // チャート初期化のeffectが選択状態の変化で作り直されないよう、最新の関数を参照で保持する
+  const updateHandlePositionRef = useRef(updateHandlePosition);
+  useEffect(() => {
+    updateHandlePositionRef.current = updateHandlePosition;
+  }, [updateHandlePosition]);
+
   useEffect(() => {
     horizontalLinesRef.current = horizontalLines;
     updateHandlePosition();
@@ -103,8 +532,25 @@ const ChartPane: React.FC<ChartPaneProps> = ({
   useEffect(() => {
     setSelectedLineId(null);
     setHandleY(null);
+    setSelectedDrawingId(null);
   }, [ticker]);
 
+  useEffect(() => {
+    drawingsRef.current = drawings;
+    drawingLayerRef.current?.setDrawings(drawings, selectedDrawingId);
+  }, [drawings, selectedDrawingId]);
+
+  useEffect(() => {
+    priceDataRef.current = priceData;
+    drawingLayerRef.current?.setBarTimes(priceData.map(bar => bar.time));
+  }, [priceData]);
+
+  // ツールを切り替えたら描画途中の図形を破棄する
+  useEffect(() => {
+    pendingAnchorRef.current = null;
+    drawingLayerRef.current?.setPreview(null);
+  }, [drawingTool, ticker, timeFrame]);
+
   const clearHorizontalLines = useCallback(() => {
     setHorizontalLines(prevLines => {
       prevLines.forEach(line => {
@@ -155,20 +601,49 @@ const ChartPane: React.FC<ChartPaneProps> = ({
     });
   }, [horizontalLines, selectedLineId, lineStyle]);
 
-  const addHorizontalLine = useCallback(async (price: number) => {
+  // 水平線の価格を、マグネットなら近くのバーの四本値に、呼値に合わせる設定なら呼値の単位に吸着させる
+  const snapLinePrice = useCallback((price: number, x: number | null): number => {
+    const series = seriesRef.current;
+    if (lineSettings.magnet && x !== null && chartRef.current && series) {
+      const logical = chartRef.current.timeScale().coordinateToLogical(x);
+      const bar = logical === null ? undefined : priceDataRef.current[Math.round(logical)];
+      const y = series.priceToCoordinate(price);
+      if (bar && y !== null) {
+        let nearest: number | null = null;
+        let nearestDistance = MAGNET_TOLERANCE;
+        [bar.open, bar.high, bar.low, bar.close].forEach(candidate => {
+          const candidateY = series.priceToCoordinate(candidate);
+          if (candidateY !== null && Math.abs(candidateY - y) <= nearestDistance) {
+            nearest = candidate;
+            nearestDistance = Math.abs(candidateY - y);
+          }
+        });
+        if (nearest !== null) {
+          return nearest;
+        }
+      }
+    }
+
+    return lineSettings.snapToTick ? roundToTick(price, tickTable) : price;
+  }, [lineSettings.magnet, lineSettings.snapToTick, tickTable]);
+
+  const addHorizontalLine = useCallback(async (rawPrice: number, x: number | null = null) => {
     if (!seriesRef.current) {
       return;
     }
 
+    const price = snapLinePrice(rawPrice, x);
+
     try {
-      const drawing = await database.saveChartDrawing(
+      const drawing = await drawingHistory.save(
         ticker,
         timeFrame,
         'horizontal_line',
         {
           price,
           color: lineSettings.color,
-          width: lineSettings.width
+          width: lineSettings.width,
+          allTimeframes: true
         },
         userId
       );
@@ -189,58 +664,84 @@ const ChartPane: React.FC<ChartPaneProps> = ({
           price,
           color: lineSettings.color,
           width: lineSettings.width,
+          allTimeframes: true,
+          alert: null,
           priceLine
         }]);
 
         setSelectedLineId(drawing.id);
         const coord = seriesRef.current.priceToCoordinate(price);
         setHandleY(coord ?? null);
+        // 表示範囲はそのまま（過去に読み足したバーまで全体表示に戻さない）
         chartRef.current?.priceScale('right').applyOptions({ autoScale: true });
-        chartRef.current?.timeScale().fitContent();
         onHorizontalLineAdded?.();
       }
     } catch (error) {
       console.error('[ChartPane] Failed to create horizontal line:', error);
     }
-  }, [ticker, timeFrame, lineSettings.color, lineSettings.width, userId, lineStyle, onHorizontalLineAdded]);
+  }, [ticker, timeFrame, lineSettings.color, lineSettings.width, userId, lineStyle, onHorizontalLineAdded, snapLinePrice]);
 
-const findLineNearCoordinate = useCallback((coordinateY: number) => {
-  if (!seriesRef.current) {
-    return null;
-  }
+  const addDrawing = useCallback(async (draft: DrawingDraft) => {
+    const { type, ...data } = draft;
 
-  const tolerance = 6;
-  for (const line of horizontalLinesRef.current) {
-    const lineCoordinate = seriesRef.current.priceToCoordinate(line.price);
-    if (lineCoordinate === null || lineCoordinate === undefined) {
-      continue;
+    try {
+      const drawing = await drawingHistory.save(ticker, timeFrame, type, data, userId);
+
+      if (drawing) {
+        setDrawings(prev => [...prev, { ...draft, id: drawing.id }]);
+        setSelectedLineId(null);
+        setHandleY(null);
+        setSelectedDrawingId(drawing.id);
+        onHorizontalLineAdded?.();
+      }
+    } catch (error) {
+      console.error(`[ChartPane] Failed to create ${type}:`, error);
     }
-    if (Math.abs(lineCoordinate - coordinateY) <= tolerance) {
-      return line;
+  }, [ticker, timeFrame, userId, onHorizontalLineAdded]);
+
+  // 座標上で最も近い水平線を返す（対数・パーセント表示でも画面上の距離で判定する）
+  const findLineNearCoordinate = useCallback((coordinateY: number) => {
+    if (!seriesRef.current) {
+      return null;
     }
-  }
 
-  return null;
-}, []);
+    const tolerance = 6;
+    let nearest: HorizontalLine | null = null;
+    let nearestDistance = tolerance;
+    for (const line of horizontalLinesRef.current) {
+      const lineCoordinate = seriesRef.current.priceToCoordinate(line.price);
+      if (lineCoordinate === null || lineCoordinate === undefined) {
+        continue;
+      }
+      const distance = Math.abs(lineCoordinate - coordinateY);
+      if (distance <= nearestDistance) {
+        nearest = line;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest;
+  }, []);
 
   const startDrag = useCallback((lineId: string, chartY: number) => {
     if (!seriesRef.current) {
       return;
     }
 
-    const pointerPrice = seriesRef.current.coordinateToPrice(chartY);
-    if (pointerPrice === null || pointerPrice === undefined) {
+    const line = horizontalLinesRef.current.find(l => l.id === lineId);
+    if (!line) {
       return;
     }
 
-    const line = horizontalLinesRef.current.find(l => l.id === lineId);
-    if (!line) {
+    const lineCoordinate = seriesRef.current.priceToCoordinate(line.price);
+    if (lineCoordinate === null || lineCoordinate === undefined) {
       return;
     }
 
+    // ずれは価格ではなく座標で持つ（対数・パーセント表示では価格差が画面上の距離と比例しないため）
     draggingLineRef.current = {
       lineId,
-      offset: line.price - pointerPrice
+      offset: lineCoordinate - chartY
     };
 
     dragHappenedRef.current = false;
@@ -274,21 +775,188 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
     event.preventDefault();
   }, [findLineNearCoordinate, lineEditorState.open, selectedLineId, startDrag]);
 
+  const createTwoPointDraft = useCallback((
+    type: DrawingPreview['type'],
+    start: DrawingAnchor,
+    end: DrawingAnchor
+  ): DrawingPreview => {
+    const style = { start, end, color: lineSettings.color, width: lineSettings.width, allTimeframes: true };
+    return type === 'trend_line' ? { type, ...style, extendRight: false } : { type, ...style };
+  }, [lineSettings.color, lineSettings.width]);
+
+  // 測定の端点はバーの位置に合わせる
+  const pointToBarAnchor = useCallback((x: number, y: number): DrawingAnchor | null => {
+    const layer = drawingLayerRef.current;
+    if (!chartRef.current || !seriesRef.current || !layer) {
+      return null;
+    }
+
+    const logical = chartRef.current.timeScale().coordinateToLogical(x);
+    const price = seriesRef.current.coordinateToPrice(y);
+    const time = logical === null ? null : layer.fromLogical(Math.round(logical));
+    return time === null || price === null ? null : { time, price };
+  }, []);
+
+  // リプレイの開始日を選ぶ（クリックしたバーの日付から開始する）
+  const handleReplayPickMouseDown = useCallback((event: MouseEvent) => {
+    if (!isPickingReplayStart || event.button !== 0 || !chartContainerRef.current) {
+      return;
+    }
+
+    const rect = chartContainerRef.current.getBoundingClientRect();
+    const anchor = pointToBarAnchor(event.clientX - rect.left, event.clientY - rect.top);
+    if (!anchor) {
+      return;
+    }
+
+    event.stopImmediatePropagation();
+    event.preventDefault();
+    onReplayStartPick?.(anchor.time);
+  }, [isPickingReplayStart, onReplayStartPick, pointToBarAnchor]);
+
+  // Shift+ドラッグで価格差・騰落率・本数・日数を測る（チャートのスクロールより先に処理する）
+  const handleMeasureMouseDown = useCallback((event: MouseEvent) => {
+    if (!event.shiftKey || event.button !== 0 || drawingTool || lineEditorState.open || !chartContainerRef.current) {
+      return;
+    }
+
+    const rect = chartContainerRef.current.getBoundingClientRect();
+    const anchor = pointToBarAnchor(event.clientX - rect.left, event.clientY - rect.top);
+    if (!anchor) {
+      return;
+    }
+
+    event.stopImmediatePropagation();
+    event.preventDefault();
+    measureStartRef.current = anchor;
+    drawingLayerRef.current?.setMeasurement({ start: anchor, end: anchor });
+    document.body.style.cursor = 'crosshair';
+  }, [drawingTool, lineEditorState.open, pointToBarAnchor]);
+
+  // トレンドライン・四角形・テキストの選択・ドラッグ開始
+  // チャートのスクロールより先に処理するため、キャプチャフェーズで受け取る
+  const handleDrawingMouseDown = useCallback((event: MouseEvent) => {
+    const layer = drawingLayerRef.current;
+    if (!chartContainerRef.current || !chartRef.current || !seriesRef.current || !layer) {
+      return;
+    }
+    if (lineEditorState.open || drawingTool || event.button !== 0) {
+      return;
+    }
+
+    const rect = chartContainerRef.current.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    const hit = layer.findDrawingAt(x, y);
+    if (!hit) {
+      return;
+    }
+
+    event.stopPropagation();
+    event.preventDefault();
+    setSelectedLineId(null);
+    setHandleY(null);
+
+    if (selectedDrawingId !== hit.id) {
+      setSelectedDrawingId(hit.id);
+      return;
+    }
+
+    const original = drawingsRef.current.find(drawing => drawing.id === hit.id);
+    const pointerLogical = chartRef.current.timeScale().coordinateToLogical(x);
+    if (!original || pointerLogical === null) {
+      return;
+    }
+
+    drawingDragRef.current = { id: hit.id, handle: hit.handle, pointerLogical, pointerY: y, original };
+    document.body.style.cursor = hit.handle === 'body' ? 'move' : 'crosshair';
+  }, [drawingTool, lineEditorState.open, selectedDrawingId]);
+
+  const dragDrawing = useCallback((x: number, y: number) => {
+    const drag = drawingDragRef.current;
+    const layer = drawingLayerRef.current;
+    if (!drag || !layer || !chartRef.current || !seriesRef.current) {
+      return;
+    }
+
+    let next: AnchoredDrawing | null;
+
+    if (drag.handle === 'body') {
+      const series = seriesRef.current;
+      const logical = chartRef.current.timeScale().coordinateToLogical(x);
+      if (logical === null) {
+        return;
+      }
+
+      // 論理インデックスと座標の上で平行移動し、時刻・価格に戻す
+      // （価格差で動かすと対数・パーセント表示で図形の形が崩れる）
+      const deltaLogical = logical - drag.pointerLogical;
+      const deltaY = y - drag.pointerY;
+      const shift = (anchor: DrawingAnchor): DrawingAnchor | null => {
+        const anchorLogical = layer.toLogical(anchor.time);
+        const time = anchorLogical === null ? null : layer.fromLogical(anchorLogical + deltaLogical);
+        const anchorY = series.priceToCoordinate(anchor.price);
+        const price = anchorY === null ? null : series.coordinateToPrice(anchorY + deltaY);
+        return time === null || price === null ? null : { time, price };
+      };
+      next = moveDrawing(drag.original, shift);
+    } else {
+      const anchor = layer.pointToAnchor(x, y);
+      next = anchor ? resizeDrawing(drag.original, drag.handle, anchor) : null;
+    }
+
+    if (next) {
+      const moved = next;
+      setDrawings(prev => prev.map(drawing => drawing.id === drag.id ? moved : drawing));
+    }
+  }, []);
+
   const handleMouseMove = useCallback((event: MouseEvent) => {
+    if (!chartContainerRef.current) {
+      return;
+    }
+
+    const measureStart = measureStartRef.current;
+    if (measureStart) {
+      const rect = chartContainerRef.current.getBoundingClientRect();
+      const anchor = pointToBarAnchor(event.clientX - rect.left, event.clientY - rect.top);
+      if (anchor) {
+        drawingLayerRef.current?.setMeasurement({ start: measureStart, end: anchor });
+      }
+      return;
+    }
+
+    const pendingAnchor = pendingAnchorRef.current;
+    if (drawingDragRef.current || pendingAnchor) {
+      const rect = chartContainerRef.current.getBoundingClientRect();
+      const x = event.clientX - rect.left;
+      const y = event.clientY - rect.top;
+
+      if (drawingDragRef.current) {
+        dragDrawing(x, y);
+        return;
+      }
+
+      const anchor = drawingLayerRef.current?.pointToAnchor(x, y);
+      if (pendingAnchor && anchor && twoPointTool) {
+        drawingLayerRef.current?.setPreview(createTwoPointDraft(twoPointTool, pendingAnchor, anchor));
+      }
+      return;
+    }
+
     const drag = draggingLineRef.current;
-    if (!drag || !chartContainerRef.current || !seriesRef.current) {
+    if (!drag || !seriesRef.current) {
       return;
     }
 
     const rect = chartContainerRef.current.getBoundingClientRect();
     const y = event.clientY - rect.top;
-    const pointerPrice = seriesRef.current.coordinateToPrice(y);
+    const rawPrice = seriesRef.current.coordinateToPrice(y + drag.offset);
 
-    if (pointerPrice === null || pointerPrice === undefined) {
+    if (rawPrice === null || rawPrice === undefined) {
       return;
     }
-
-    const newPrice = pointerPrice + drag.offset;
+    const newPrice = snapLinePrice(rawPrice, event.clientX - rect.left);
 
     setHorizontalLines(prev => {
       const updated = prev.map(line => {
@@ -307,9 +975,35 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
     dragHappenedRef.current = true;
     const coord = seriesRef.current.priceToCoordinate(newPrice);
     setHandleY(coord ?? null);
-  }, []);
+  }, [dragDrawing, twoPointTool, createTwoPointDraft, pointToBarAnchor, snapLinePrice]);
 
   const handleMouseUp = useCallback(async () => {
+    // 測定結果は Escape で消すまで表示したままにする
+    if (measureStartRef.current) {
+      measureStartRef.current = null;
+      document.body.style.cursor = 'default';
+      return;
+    }
+
+    const drawingDrag = drawingDragRef.current;
+    if (drawingDrag) {
+      drawingDragRef.current = null;
+      document.body.style.cursor = 'default';
+
+      const target = drawingsRef.current.find(drawing => drawing.id === drawingDrag.id);
+      if (!target || target === drawingDrag.original) {
+        return;
+      }
+
+      try {
+        await drawingHistory.update(drawingDrag.id, drawingGeometry(target), userId);
+        onHorizontalLineAdded?.();
+      } catch (error) {
+        console.error(`[ChartPane] Failed to persist dragged ${target.type}:`, error);
+      }
+      return;
+    }
+
     const drag = draggingLineRef.current;
     if (!drag) {
       return;
@@ -325,13 +1019,12 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
     }
 
     try {
-      await database.updateChartDrawing(drag.lineId, { price: targetLine.price }, userId);
+      await drawingHistory.update(drag.lineId, { price: targetLine.price }, userId);
       onHorizontalLineAdded?.();
     } catch (error) {
       console.error('[ChartPane] Failed to persist dragged horizontal line:', error);
     }
     chartRef.current?.priceScale('right').applyOptions({ autoScale: true });
-    chartRef.current?.timeScale().fitContent();
     updateHandlePosition();
     dragHappenedRef.current = false;
   }, [onHorizontalLineAdded, userId, updateHandlePosition]);
@@ -361,10 +1054,11 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
         mode: 0 // CrosshairMode.Normal (0=Normal, 1=Magnet) - カーソル位置に自由に追従
       },
       rightPriceScale: {
-        borderColor: '#e0e0e0'
+        borderColor: '#e0e0e0',
+        scaleMargins: CANDLE_SCALE_MARGINS
       } as any,
       localization: {
-        priceFormatter: (price: number) => Math.round(price).toString()
+        priceFormatter: (price: number) => formatPrice(price, pricePrecisionRef.current.precision)
       },
       timeScale: {
         borderColor: '#e0e0e0',
@@ -384,11 +1078,35 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
       borderDownColor: colors.bearish.border,
       borderUpColor: colors.bullish.border,
       wickDownColor: colors.bearish.wick,
-      wickUpColor: colors.bullish.wick
+      wickUpColor: colors.bullish.wick,
+      priceFormat: toPriceFormat(pricePrecisionRef.current)
+    });
+
+    const volumeSeries = chart.addHistogramSeries({
+      priceScaleId: VOLUME_PRICE_SCALE_ID,
+      priceFormat: { type: 'volume' },
+      priceLineVisible: false,
+      lastValueVisible: false
+    });
+    const volumeMaSeries = chart.addLineSeries({
+      priceScaleId: VOLUME_PRICE_SCALE_ID,
+      color: '#6C757D',
+      lineWidth: 1,
+      priceLineVisible: false,
+      lastValueVisible: false,
+      crosshairMarkerVisible: false
     });
+    chart.priceScale(VOLUME_PRICE_SCALE_ID).applyOptions({ scaleMargins: VOLUME_SCALE_MARGINS });
+
+    const drawingLayer = new DrawingLayer();
+    drawingLayer.setPricePrecision(pricePrecisionRef.current.precision);
+    series.attachPrimitive(drawingLayer);
 
     chartRef.current = chart;
     seriesRef.current = series;
+    drawingLayerRef.current = drawingLayer;
+    volumeSeriesRef.current = volumeSeries;
+    volumeMaSeriesRef.current = volumeMaSeries;
 
     // リサイズハンドラー
     const handleResize = () => {
@@ -397,7 +1115,7 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
           width: chartContainerRef.current.clientWidth,
           height: chartContainerRef.current.clientHeight
         });
-        updateHandlePosition();
+        updateHandlePositionRef.current();
       }
     };
 
@@ -409,15 +1127,17 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
       if (param.point && seriesRef.current) {
         // カーソルのY座標から正確な価格を取得
         const price = seriesRef.current.coordinateToPrice(param.point.y);
+        setHoveredBar(param.time !== undefined ? findBarAt(priceDataRef.current, param.time) : null);
         
         // 親コンポーネントに通知（チャート間同期用）
         if (onCrosshairMove && price !== null && price !== undefined) {
-          onCrosshairMove(price, param.time, title);
+          onCrosshairMove(price, param.time, paneIdRef.current, timeFrameRef.current);
         }
       } else {
+        setHoveredBar(null);
         // カーソルがチャート外の場合
         if (onCrosshairMove) {
-          onCrosshairMove(null, null, title);
+          onCrosshairMove(null, null, paneIdRef.current, timeFrameRef.current);
         }
       }
     };
@@ -428,13 +1148,62 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
       chart.unsubscribeCrosshairMove(handleCrosshairMove);
       resizeObserver.disconnect();
       chart.remove();
+      maSeriesRef.current = [];
+      volumeSeriesRef.current = null;
+      volumeMaSeriesRef.current = null;
+      oscillatorSeriesRef.current = [];
+      overlaySeriesRef.current = [];
+      styleSeriesRef.current = null;
+      drawingLayerRef.current = null;
     };
-  }, [onCrosshairMove, title, updateHandlePosition]);
+  }, [onCrosshairMove]);
+
+  // 表示スタイルに合わせて価格データをシリーズに流し込む
+  const renderPriceSeries = useCallback((bars: PriceBar[]) => {
+    const style = chartStyleRef.current;
+    seriesRef.current?.setData(toCandlestickData(style === 'heikin_ashi' ? calculateHeikinAshi(bars) : bars));
+
+    const styleSeries = styleSeriesRef.current;
+    if (!styleSeries) {
+      return;
+    }
+    if (style === 'bar') {
+      styleSeries.setData(toCandlestickData(bars));
+    } else {
+      styleSeries.setData(bars.map(bar => ({ time: bar.time as any, value: bar.close })));
+    }
+  }, []);
+
+  // 読み込んだバーを表示する（リプレイ中はリプレイ日までに切り詰める）
+  const showBars = useCallback((loaded: PriceBar[]) => {
+    loadedBarsRef.current = loaded;
+    const { time, dailyBars } = replayViewRef.current;
+    const bars = time === null ? loaded : truncateBarsForReplay(loaded, timeFrame, time, dailyBars);
+    priceDataRef.current = bars;
+    renderPriceSeries(bars);
+    setPriceData(bars);
+    setLoadedRange(prev => {
+      if (loaded.length === 0) {
+        return null;
+      }
+      const from = loaded[0].time;
+      const to = loaded[loaded.length - 1].time;
+      return prev && prev.from === from && prev.to === to ? prev : { from, to };
+    });
+    return bars;
+  }, [timeFrame, renderPriceSeries]);
 
   // データの読み込みと更新
   useEffect(() => {
     if (!ticker || !seriesRef.current) return;
 
+    historyLoadRef.current = { generation: historyLoadRef.current.generation + 1, loading: false, exhausted: false, rangeFrom: null };
+    priceDataRef.current = [];
+    loadedBarsRef.current = [];
+    setLoadedRange(null);
+    // 読み込み直すときは、他の銘柄のバーも最新のデータを取り直す
+    rangeBarsCacheRef.current.clear();
+
     const loadStockData = async () => {
       setIsLoading(true);
       setError(null);
@@ -445,12 +1214,17 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
       }
 
       try {
-        // 一般的なチャートアプリの標準表示本数（50〜100本）
-        const limit = 100; // 日足: 約5ヶ月分、週足: 約2年分、月足: 約8年分
-
-        // Supabaseから実際のデータを取得
+        // Supabaseから実際のデータを取得（それより古いデータは左端までスクロールしたときに読み込む）
+        // リプレイ中は開始日の前後の期間を読み込む
         console.log('[ChartPane] Fetching real data from Supabase for:', ticker, timeFrame);
-        const stockData = await database.getStockData(ticker, timeFrame, limit);
+        const stockData = replayStartTime !== null
+          ? await database.getStockDataByDateRange(
+            ticker,
+            timeFrame,
+            toDateString(replayStartTime - SCROLL_BACK_DAYS[timeFrame] * ONE_DAY_SECONDS),
+            toDateString(replayStartTime + REPLAY_SPAN_DAYS * ONE_DAY_SECONDS)
+          )
+          : await database.getStockData(ticker, timeFrame, INITIAL_BAR_LIMIT);
         
         // データが取得できない場合はエラー表示
         if (stockData.length === 0) {
@@ -460,25 +1234,15 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
         if (stockData.length === 0) {
           setError(`${timeFrame} データがありません`);
           seriesRef.current?.setData([]);
+          setPriceData([]);
           return;
         }
 
         // データをlightweight-charts形式に変換
-        const chartData: CandlestickData[] = stockData
-          .sort((a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime())
-          .map((data: any) => ({
-            time: Math.floor(new Date(data.date).getTime() / 1000) as any,
-            open: Math.round(data.open),
-            high: Math.round(data.high),
-            low: Math.round(data.low),
-            close: Math.round(data.close)
-          }))
-          .filter((data, index, array) => 
-            index === 0 || data.time !== array[index - 1].time
-          );
+        const bars = showBars(toPriceBars(stockData));
+        const chartData = toCandlestickData(bars);
 
         console.log(`Setting ${chartData.length} data points for ${ticker} ${timeFrame}`);
-        seriesRef.current?.setData(chartData);
         
         // 統一された表示範囲を設定（直近100本のロウソク足を表示）
         if (chartRef.current && chartData.length > 0) {
@@ -495,10 +1259,13 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
             setTimeout(() => {
               if (chartRef.current) {
                 chartRef.current.timeScale().fitContent();
+                // 初期表示の範囲変更を左方向へのスクロールとみなさないようにする
+                historyLoadRef.current.rangeFrom = null;
               }
             }, 0);
           } else {
             chartRef.current.timeScale().fitContent();
+            historyLoadRef.current.rangeFrom = null;
           }
 
           chartRef.current?.priceScale('right').applyOptions({ autoScale: true });
@@ -506,27 +1273,673 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
       } catch (err) {
         console.error('Failed to load stock data:', err);
         setError('データの読み込みに失敗しました');
+        setPriceData([]);
       } finally {
         setIsLoading(false);
       }
     };
 
     loadStockData();
-  }, [ticker, timeFrame, delay]);
+  }, [ticker, timeFrame, delay, replayStartTime, showBars]);
+
+  // 週足・月足のリプレイ用に、開始日を含む期間から日足を読み込む
+  useEffect(() => {
+    if (replayStartTime === null || (timeFrame !== '1W' && timeFrame !== '1M')) {
+      setReplayDailyBars(prev => (prev.length === 0 ? prev : []));
+      return;
+    }
+
+    let cancelled = false;
+    const loadDailyBars = async () => {
+      try {
+        const stockData = await database.getStockDataByDateRange(
+          ticker,
+          '1D',
+          toDateString(replayStartTime - REPLAY_DAILY_LOOKBACK_DAYS * ONE_DAY_SECONDS),
+          toDateString(replayStartTime + REPLAY_SPAN_DAYS * ONE_DAY_SECONDS)
+        );
+        if (!cancelled) {
+          setReplayDailyBars(toPriceBars(stockData));
+        }
+      } catch (error) {
+        console.error('[ChartPane] Failed to load daily bars for replay:', error);
+      }
+    };
+
+    loadDailyBars();
+    return () => {
+      cancelled = true;
+    };
+  }, [ticker, timeFrame, replayStartTime]);
+
+  // リプレイ日が進んだら表示するバーを切り詰め直し、最新のバーまでスクロールする
+  useEffect(() => {
+    if (loadedBarsRef.current.length === 0) {
+      return;
+    }
+
+    showBars(loadedBarsRef.current);
+    if (replayTime !== null) {
+      chartRef.current?.timeScale().scrollToRealTime();
+      historyLoadRef.current.rangeFrom = null;
+    }
+  }, [replayTime, replayDailyBars, showBars]);
+
+  // 左端までスクロールしたら、それより前の期間のバーを先頭に追加する
+  // 表示範囲は論理インデックスで保持しているため、追加した本数だけずらして元の表示位置を保つ
+  const loadOlderBars = useCallback(async () => {
+    const state = historyLoadRef.current;
+    const currentBars = loadedBarsRef.current;
+    if (state.loading || state.exhausted || currentBars.length === 0) {
+      return;
+    }
+
+    state.loading = true;
+    const generation = state.generation;
+
+    try {
+      // 日付単位で範囲指定するため、先頭のバーの日を含めて取得し、既存のバー以降は捨てる
+      const earliestTime = currentBars[0].time;
+      const loadPage = async (fromTime: number) => {
+        const stockData = await database.getStockDataByDateRange(
+          ticker,
+          timeFrame,
+          toDateString(fromTime),
+          toDateString(earliestTime + ONE_DAY_SECONDS)
+        );
+        return toPriceBars(stockData).filter(bar => bar.time < earliestTime);
+      };
+      const isStale = () => generation !== historyLoadRef.current.generation || !seriesRef.current || !chartRef.current;
+
+      const fromTime = earliestTime - SCROLL_BACK_DAYS[timeFrame] * ONE_DAY_SECONDS;
+      let olderBars = await loadPage(fromTime);
+
+      // 長期の売買停止などで期間内にバーがないだけのこともあるため、それより前のバーがあればそこから読み込む
+      if (olderBars.length === 0 && !isStale()) {
+        const previousDate = await database.getLatestStockDateBefore(ticker, timeFrame, toDateString(fromTime));
+        if (previousDate && !isStale()) {
+          olderBars = await loadPage(toBarTime(previousDate) - SCROLL_BACK_DAYS[timeFrame] * ONE_DAY_SECONDS);
+        }
+      }
+
+      // 読み込み中に銘柄・時間足が切り替わった場合は破棄
+      if (isStale() || !chartRef.current) {
+        return;
+      }
+
+      if (olderBars.length === 0) {
+        state.exhausted = true;
+        console.log(`[ChartPane] No older data for ${ticker} ${timeFrame}`);
+        return;
+      }
+
+      const timeScale = chartRef.current.timeScale();
+      const visibleRange = timeScale.getVisibleLogicalRange();
+      const previousLength = priceDataRef.current.length;
+
+      const bars = showBars([...olderBars, ...loadedBarsRef.current]);
+      const addedLength = bars.length - previousLength;
+      if (visibleRange) {
+        timeScale.setVisibleLogicalRange({
+          from: visibleRange.from + addedLength,
+          to: visibleRange.to + addedLength
+        });
+      }
+      // 位置合わせのための範囲変更も、次のスクロールの基準にしない
+      state.rangeFrom = null;
+
+      console.log(`[ChartPane] Prepended ${olderBars.length} older bars for ${ticker} ${timeFrame}`);
+    } catch (err) {
+      // 通信エラーでは打ち切らず、次に左へスクロールしたときに再試行する
+      console.error('[ChartPane] Failed to load older bars:', err);
+    } finally {
+      state.loading = false;
+    }
+  }, [ticker, timeFrame, showBars]);
+
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) {
+      return;
+    }
+
+    // 読み込み直後の fitContent でも左端付近になるため、左方向にスクロールしたときだけ読み込む
+    const handleVisibleRangeChange = (range: { from: number; to: number } | null) => {
+      const state = historyLoadRef.current;
+      const previousFrom = state.rangeFrom;
+      state.rangeFrom = range ? range.from : null;
+      if (range && previousFrom !== null && range.from < previousFrom && range.from < SCROLL_BACK_THRESHOLD) {
+        loadOlderBars();
+      }
+    };
+
+    chart.timeScale().subscribeVisibleLogicalRangeChange(handleVisibleRangeChange);
+    return () => {
+      chart.timeScale().unsubscribeVisibleLogicalRangeChange(handleVisibleRangeChange);
+    };
+  }, [loadOlderBars]);
+
+  useEffect(() => {
+    chartRef.current?.priceScale('right').applyOptions({ mode: PRICE_SCALE_MODES[effectivePriceScaleMode] });
+    // スケールの再計算は次の描画で行われるため、選択中の水平線のハンドルもその後に合わせる
+    const frame = requestAnimationFrame(updateHandlePosition);
+    return () => cancelAnimationFrame(frame);
+  }, [effectivePriceScaleMode, updateHandlePosition]);
+
+  // 他の銘柄のバーを、表示中の銘柄と同じ期間で取得する
+  // 過去方向に読み足したときは、キャッシュにない期間だけを取得して先頭に追加する
+  const loadBarsForRange = useCallback(async (symbol: string, from: number, to: number): Promise<PriceBar[]> => {
+    const key = `${symbol}:${timeFrame}`;
+    const cached = rangeBarsCacheRef.current.get(key);
+    if (cached && cached.from <= from && to <= cached.to) {
+      return cached.bars;
+    }
+
+    const extendsCached = cached !== undefined && cached.to >= to;
+    const stockData = await database.getStockDataByDateRange(
+      symbol,
+      timeFrame,
+      toDateString(from),
+      toDateString(extendsCached ? cached.from : to)
+    );
+    const fetched = toPriceBars(stockData);
+    const entry = extendsCached
+      ? { from, to: cached.to, bars: [...fetched.filter(bar => bar.time < cached.from), ...cached.bars] }
+      : { from, to, bars: fetched };
+
+    rangeBarsCacheRef.current.set(key, entry);
+    return entry.bars;
+  }, [timeFrame]);
+
+  // 比較銘柄のバーを読み込んだバーと同じ期間で取得する
+  useEffect(() => {
+    if (compareSymbols.length === 0 || !loadedRange) {
+      setCompareBars(prev => (Object.keys(prev).length === 0 ? prev : {}));
+      return;
+    }
+
+    let cancelled = false;
+    const loadCompareBars = async () => {
+      const result: Record<string, PriceBar[]> = {};
+      for (const symbol of compareSymbols) {
+        try {
+          result[symbol] = await loadBarsForRange(symbol, loadedRange.from, loadedRange.to);
+        } catch (error) {
+          console.error(`[ChartPane] Failed to load comparison data for ${symbol}:`, error);
+        }
+        if (cancelled) {
+          return;
+        }
+      }
+      setCompareBars(result);
+    };
+
+    loadCompareBars();
+    return () => {
+      cancelled = true;
+    };
+  }, [compareSymbols, loadedRange, loadBarsForRange]);
+
+  // 比較銘柄の重ね描き
+  // ローソク足と同じ右スケール（パーセント表示）に載せ、表示範囲の最初のバーからの騰落率で比べる
+  // リプレイ中はリプレイ日までに切り詰める（週足・月足の途中の足は、比較銘柄の日足がないため描かない）
+  const firstBarTime = priceData.length > 0 ? priceData[0].time : null;
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || firstBarTime === null) {
+      return;
+    }
+
+    const compareSeries: ISeriesApi<'Line'>[] = [];
+    compareSymbols.forEach((symbol, index) => {
+      const bars = compareBars[symbol];
+      if (!bars) {
+        return;
+      }
+
+      const visibleBars = replayTime === null ? bars : truncateBarsForReplay(bars, timeFrame, replayTime, []);
+      const points = visibleBars
+        .filter(bar => bar.time >= firstBarTime)
+        .map(bar => ({ time: bar.time as any, value: bar.close }));
+      if (points.length === 0) {
+        console.warn(`[ChartPane] No comparison data for ${symbol} ${timeFrame}`);
+        return;
+      }
+
+      const series = chart.addLineSeries({
+        color: COMPARE_COLORS[index % COMPARE_COLORS.length],
+        lineWidth: 2,
+        priceLineVisible: false,
+        crosshairMarkerVisible: false,
+        title: symbol
+      });
+      series.setData(points);
+      compareSeries.push(series);
+    });
+
+    return () => {
+      compareSeries.forEach(series => {
+        try {
+          chart.removeSeries(series);
+        } catch (error) {
+          console.warn('Failed to remove comparison series:', error);
+        }
+      });
+    };
+  }, [compareSymbols, compareBars, firstBarTime, timeFrame, replayTime]);
+
+  const addCompareSymbol = useCallback((symbol: string) => {
+    const normalized = symbol.trim().toUpperCase();
+    if (!normalized || normalized === ticker) {
+      return;
+    }
+    setCompareSymbols(prev => (
+      prev.includes(normalized) || prev.length >= MAX_COMPARE_SYMBOLS ? prev : [...prev, normalized]
+    ));
+    setCompareInput('');
+  }, [ticker]);
+
+  const removeCompareSymbol = useCallback((symbol: string) => {
+    setCompareSymbols(prev => prev.filter(item => item !== symbol));
+  }, []);
+
+  // 表示スタイルの切り替え
+  useEffect(() => {
+    const chart = chartRef.current;
+    const series = seriesRef.current;
+    if (!chart || !series) {
+      return;
+    }
+
+    chartStyleRef.current = chartStyle;
+
+    if (styleSeriesRef.current) {
+      try {
+        chart.removeSeries(styleSeriesRef.current);
+      } catch (error) {
+        console.warn('Failed to remove chart style series:', error);
+      }
+      styleSeriesRef.current = null;
+    }
+
+    const colors = getChartColors();
+    const overlaid = OVERLAID_CHART_STYLES.includes(chartStyle);
+    series.applyOptions(overlaid
+      ? {
+        upColor: 'transparent',
+        downColor: 'transparent',
+        borderUpColor: 'transparent',
+        borderDownColor: 'transparent',
+        wickUpColor: 'transparent',
+        wickDownColor: 'transparent',
+        lastValueVisible: false,
+        priceLineVisible: false
+      }
+      : {
+        upColor: colors.bullish.body,
+        downColor: colors.bearish.body,
+        borderUpColor: colors.bullish.border,
+        borderDownColor: colors.bearish.border,
+        wickUpColor: colors.bullish.wick,
+        wickDownColor: colors.bearish.wick,
+        lastValueVisible: true,
+        priceLineVisible: true
+      });
+
+    if (chartStyle === 'line') {
+      styleSeriesRef.current = chart.addLineSeries({ color: '#2962FF', lineWidth: 2 });
+    } else if (chartStyle === 'area') {
+      styleSeriesRef.current = chart.addAreaSeries({
+        lineColor: '#2962FF',
+        topColor: withAlpha('#2962FF', 0.4),
+        bottomColor: withAlpha('#2962FF', 0.05),
+        lineWidth: 2
+      });
+    } else if (chartStyle === 'bar') {
+      styleSeriesRef.current = chart.addBarSeries({
+        upColor: colors.bullish.body,
+        downColor: colors.bearish.body
+      });
+    }
+    styleSeriesRef.current?.applyOptions({ priceFormat: toPriceFormat(pricePrecisionRef.current) });
+
+    renderPriceSeries(priceDataRef.current);
+  }, [chartStyle, renderPriceSeries]);
+
+  // 価格の表示精度（軸・価格ラベル・描画オブジェクトのラベル）
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) {
+      return;
+    }
+
+    const priceFormat = toPriceFormat(pricePrecision);
+    seriesRef.current?.applyOptions({ priceFormat });
+    styleSeriesRef.current?.applyOptions({ priceFormat });
+    chart.applyOptions({
+      localization: {
+        priceFormatter: (price: number) => formatPrice(price, pricePrecision.precision)
+      }
+    });
+    drawingLayerRef.current?.setPricePrecision(pricePrecision.precision);
+  }, [pricePrecision]);
+
+  const movingAverageLines = useMemo(() => {
+    if (priceData.length === 0) {
+      return [];
+    }
+    return movingAverages
+      .filter(config => config.enabled)
+      .map(config => ({ config, points: calculateMovingAverage(priceData, config.type, config.period) }))
+      .filter(line => line.points.length > 0);
+  }, [priceData, movingAverages]);
+
+  // リプレイ中のベンチマークもリプレイ日までに切り詰め、先の値で RS を計算しないようにする
+  const visibleBenchmarkData = useMemo(() => (
+    replayTime === null ? benchmarkData : truncateBarsForReplay(benchmarkData, timeFrame, replayTime, [])
+  ), [benchmarkData, timeFrame, replayTime]);
+
+  const oscillatorData = useMemo((): OscillatorData => {
+    if (priceData.length === 0) {
+      return { lines: [], histogram: [] };
+    }
+
+    if (oscillator === 'rsi') {
+      return {
+        lines: [{ label: 'RSI14', color: '#6A5ACD', points: calculateRSI(priceData, 14), guideLevels: [70, 30] }],
+        histogram: []
+      };
+    }
+    if (oscillator === 'macd') {
+      const { macd, signal, histogram } = calculateMACD(priceData, 12, 26, 9);
+      return {
+        lines: [
+          { label: 'MACD', color: '#0055FF', points: macd, guideLevels: [0] },
+          { label: 'Signal', color: '#F39C12', points: signal }
+        ],
+        histogram
+      };
+    }
+    if (oscillator === 'stochastics') {
+      const { k, d } = calculateSlowStochastics(priceData, 14, 3, 3);
+      return {
+        lines: [
+          { label: '%K', color: '#0055FF', points: k, guideLevels: [80, 20] },
+          { label: '%D', color: '#F39C12', points: d }
+        ],
+        histogram: []
+      };
+    }
+    if (oscillator === 'rs_line') {
+      return {
+        lines: [{ label: 'RS', color: '#E67E22', points: calculateRelativeStrengthLine(priceData, visibleBenchmarkData), guideLevels: [100] }],
+        histogram: []
+      };
+    }
+    return { lines: [], histogram: [] };
+  }, [priceData, oscillator, visibleBenchmarkData]);
+
+  const legendIndicators = useMemo((): LegendIndicator[] => {
+    const toValues = (points: IndicatorPoint[]) => new Map(points.map(point => [point.time, point.value]));
+    return [
+      ...movingAverageLines.map(({ config, points }, index) => ({
+        key: `ma-${config.type}-${config.period}-${index}`,
+        label: `${config.type}${config.period}`,
+        color: config.color,
+        values: toValues(points),
+        isPrice: true
+      })),
+      ...oscillatorData.lines.map((line, index) => ({
+        key: `oscillator-${index}`,
+        label: line.label,
+        color: line.color,
+        values: toValues(line.points),
+        isPrice: false
+      }))
+    ];
+  }, [movingAverageLines, oscillatorData]);
+
+  // 移動平均線の描画（設定またはデータが変わるたびに作り直す）
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) {
+      return;
+    }
+
+    maSeriesRef.current.forEach(series => {
+      try {
+        chart.removeSeries(series);
+      } catch (error) {
+        console.warn('Failed to remove moving average series:', error);
+      }
+    });
+    maSeriesRef.current = [];
+
+    movingAverageLines.forEach(({ config, points }) => {
+      const series = chart.addLineSeries({
+        color: config.color,
+        lineWidth: 1,
+        priceLineVisible: false,
+        lastValueVisible: false,
+        crosshairMarkerVisible: false
+      });
+      series.setData(points.map(point => ({ time: point.time as any, value: point.value })));
+      maSeriesRef.current.push(series);
+    });
+  }, [movingAverageLines]);
+
+  // 出来高ヒストグラム（陽線・陰線の色で塗り分け）と出来高移動平均
+  useEffect(() => {
+    if (!volumeSeriesRef.current || !volumeMaSeriesRef.current) {
+      return;
+    }
+
+    const colors = getChartColors();
+    volumeSeriesRef.current.setData(priceData.map(bar => ({
+      time: bar.time as any,
+      value: bar.volume ?? 0,
+      color: withAlpha(bar.close >= bar.open ? colors.bullish.body : colors.bearish.body, 0.5)
+    })));
+    volumeMaSeriesRef.current.setData(
+      calculateVolumeSMA(priceData, VOLUME_MA_PERIOD).map(point => ({ time: point.time as any, value: point.value }))
+    );
+  }, [priceData]);
+
+  // RSライン用のベンチマーク（読み込んだバーと同じ期間を取得し、過去に読み足した部分も欠けないようにする）
+  useEffect(() => {
+    if (oscillator !== 'rs_line' || !loadedRange) {
+      setBenchmarkData(prev => (prev.length === 0 ? prev : []));
+      return;
+    }
+
+    let cancelled = false;
+    const loadBenchmark = async () => {
+      try {
+        const bars = await loadBarsForRange(RS_BENCHMARK_SYMBOL, loadedRange.from, loadedRange.to);
+        if (!cancelled) {
+          setBenchmarkData(bars);
+        }
+      } catch (error) {
+        console.error('[ChartPane] Failed to load RS benchmark:', error);
+      }
+    };
+
+    loadBenchmark();
+    return () => {
+      cancelled = true;
+    };
+  }, [oscillator, loadedRange, loadBarsForRange]);
+
+  // オシレーター（同一チャート内の別スケールに描画するため、クロスヘアは自動的にローソク足と同期する）
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) {
+      return;
+    }
+
+    oscillatorSeriesRef.current.forEach(series => {
+      try {
+        chart.removeSeries(series);
+      } catch (error) {
+        console.warn('Failed to remove oscillator series:', error);
+      }
+    });
+    oscillatorSeriesRef.current = [];
+
+    const hasOscillator = oscillator !== 'none';
+    chart.priceScale('right').applyOptions({
+      scaleMargins: hasOscillator ? CANDLE_SCALE_MARGINS_WITH_OSCILLATOR : CANDLE_SCALE_MARGINS
+    });
+    chart.priceScale(VOLUME_PRICE_SCALE_ID).applyOptions({
+      scaleMargins: hasOscillator ? VOLUME_SCALE_MARGINS_WITH_OSCILLATOR : VOLUME_SCALE_MARGINS
+    });
+
+    if (!hasOscillator || priceData.length === 0) {
+      return;
+    }
+
+    const addLine = (points: IndicatorPoint[], color: string, guideLevels: number[] = []) => {
+      const series = chart.addLineSeries({
+        priceScaleId: OSCILLATOR_PRICE_SCALE_ID,
+        color,
+        lineWidth: 1,
+        priceLineVisible: false,
+        lastValueVisible: false,
+        crosshairMarkerVisible: false
+      });
+      series.setData(toLineData(points));
+      guideLevels.forEach(level => {
+        series.createPriceLine({
+          price: level,
+          color: '#adb5bd',
+          lineWidth: 1,
+          lineStyle: 2,
+          axisLabelVisible: false,
+          title: ''
+        });
+      });
+      oscillatorSeriesRef.current.push(series);
+    };
+
+    if (oscillatorData.histogram.length > 0) {
+      const histogramSeries = chart.addHistogramSeries({
+        priceScaleId: OSCILLATOR_PRICE_SCALE_ID,
+        priceLineVisible: false,
+        lastValueVisible: false
+      });
+      histogramSeries.setData(oscillatorData.histogram.map(point => ({
+        time: point.time as any,
+        value: point.value,
+        color: point.value >= 0 ? 'rgba(0, 184, 148, 0.5)' : 'rgba(232, 67, 147, 0.5)'
+      })));
+      oscillatorSeriesRef.current.push(histogramSeries);
+    }
+    oscillatorData.lines.forEach(line => addLine(line.points, line.color, line.guideLevels));
+
+    chart.priceScale(OSCILLATOR_PRICE_SCALE_ID).applyOptions({ scaleMargins: OSCILLATOR_SCALE_MARGINS });
+  }, [priceData.length, oscillator, oscillatorData]);
+
+  // 一目均衡表・ボリンジャーバンドのオーバーレイ
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) {
+      return;
+    }
+
+    overlaySeriesRef.current.forEach(series => {
+      try {
+        chart.removeSeries(series);
+      } catch (error) {
+        console.warn('Failed to remove overlay series:', error);
+      }
+    });
+    overlaySeriesRef.current = [];
+
+    if (priceData.length === 0) {
+      return;
+    }
+
+    const addLine = (points: IndicatorPoint[], color: string, lineStyle = 0) => {
+      const series = chart.addLineSeries({
+        color,
+        lineWidth: 1,
+        lineStyle,
+        priceLineVisible: false,
+        lastValueVisible: false,
+        crosshairMarkerVisible: false
+      });
+      series.setData(toLineData(points));
+      overlaySeriesRef.current.push(series);
+      return series;
+    };
+
+    if (priceOverlays.includes('ichimoku')) {
+      const futureTimes = generateFutureTimes(
+        priceData[priceData.length - 1].time,
+        ICHIMOKU_DISPLACEMENT,
+        timeFrame
+      );
+      const ichimoku = calculateIchimoku(priceData, futureTimes, 9, 26, 52, ICHIMOKU_DISPLACEMENT);
+
+      const spanASeries = addLine(ichimoku.leadingSpanA, 'rgba(0, 184, 148, 0.8)');
+      addLine(ichimoku.leadingSpanB, 'rgba(232, 67, 147, 0.8)');
+      addLine(ichimoku.conversion, '#E84393');
+      addLine(ichimoku.base, '#0055FF');
+      addLine(ichimoku.laggingSpan, '#6C757D', 2);
+
+      const cloud = new IchimokuCloud({
+        bullish: 'rgba(0, 184, 148, 0.15)',
+        bearish: 'rgba(232, 67, 147, 0.15)'
+      });
+      spanASeries.attachPrimitive(cloud);
+      cloud.setData(ichimoku.leadingSpanA, ichimoku.leadingSpanB);
+    }
+
+    if (priceOverlays.includes('bollinger')) {
+      const { middle, bands } = calculateBollingerBands(priceData, 20, [1, 2, 3]);
+      addLine(middle, '#808080');
+      bands.forEach(band => {
+        const color = BOLLINGER_COLORS[band.sigma] || '#5DA9FF';
+        addLine(band.upper, color, band.sigma === 2 ? 0 : 2);
+        addLine(band.lower, color, band.sigma === 2 ? 0 : 2);
+      });
+    }
+  }, [priceData, priceOverlays, timeFrame]);
+
+  const togglePriceOverlay = useCallback((overlay: PriceOverlayType) => {
+    const next = priceOverlays.includes(overlay)
+      ? priceOverlays.filter(item => item !== overlay)
+      : [...priceOverlays, overlay];
+    onPriceOverlaysChange?.(timeFrame, next);
+  }, [onPriceOverlaysChange, priceOverlays, timeFrame]);
+
+  const handleMovingAveragesSave = useCallback((configs: MovingAverageConfig[]) => {
+    onMovingAveragesChange?.(timeFrame, configs);
+    setIsMaEditorOpen(false);
+  }, [onMovingAveragesChange, timeFrame]);
 
   // 他のチャートからの同期プライスを受け取った時の処理
   useEffect(() => {
     // 自分自身のチャートからの同期は無視
-    if (sourceChart === title) {
+    if (sourceChart === paneId) {
       return;
     }
 
     if (syncedPrice !== null && syncedTime !== null && chartRef.current && seriesRef.current) {
       try {
+        // 送信元の時刻をこのチャートの時間足のバーに対応付ける（日足の日付 → それを含む週足・月足など）
+        const sourceIsCoarser = sourceTimeFrame !== null && TIMEFRAME_RANK[sourceTimeFrame] > TIMEFRAME_RANK[timeFrame];
+        const barTime = typeof syncedTime === 'number'
+          ? findSyncedBarTime(priceDataRef.current.map(bar => bar.time), syncedTime, sourceIsCoarser)
+          : null;
+
         // 価格が有効な数値であることを確認
-        if (typeof syncedPrice === 'number' && !isNaN(syncedPrice)) {
-          chartRef.current.setCrosshairPosition(syncedPrice, syncedTime, seriesRef.current);
-          console.log(`Synced crosshair to price ${syncedPrice} on ${title} chart (from ${sourceChart})`);
+        if (barTime !== null && typeof syncedPrice === 'number' && !isNaN(syncedPrice)) {
+          chartRef.current.setCrosshairPosition(syncedPrice, barTime as any, seriesRef.current);
+          setHoveredBar(findBarAt(priceDataRef.current, barTime));
+        } else {
+          chartRef.current.clearCrosshairPosition();
+          setHoveredBar(null);
         }
       } catch (error) {
         console.warn(`Failed to sync crosshair on ${title} chart:`, error);
@@ -535,12 +1948,12 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
       // 他のチャートでカーソルが外れた場合、このチャートのクロスヘアもクリア
       try {
         chartRef.current.clearCrosshairPosition();
-        console.log(`Cleared crosshair on ${title} chart`);
+        setHoveredBar(null);
       } catch (error) {
         console.warn(`Failed to clear crosshair on ${title} chart:`, error);
       }
     }
-  }, [syncedPrice, syncedTime, sourceChart, title]);
+  }, [syncedPrice, syncedTime, sourceChart, sourceTimeFrame, timeFrame, title, paneId]);
 
   // 水平線を読み込む
   useEffect(() => {
@@ -563,6 +1976,7 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
         }
 
         const uniqueLines: HorizontalLine[] = [];
+        const loadedDrawings: AnchoredDrawing[] = [];
         const seenIds = new Set<string>();
 
         drawings.forEach(d => {
@@ -572,6 +1986,14 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
 
           seenIds.add(d.id);
 
+          if (d.type !== 'horizontal_line') {
+            const drawing = toAnchoredDrawing(d, { color: lineSettings.color, width: lineSettings.width });
+            if (drawing) {
+              loadedDrawings.push(drawing);
+            }
+            return;
+          }
+
           try {
             const priceValue = typeof d.data.price === 'number' ? d.data.price : Number(d.data.price);
             if (!Number.isFinite(priceValue)) {
@@ -587,7 +2009,7 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
               lineWidth: widthValue as any,
               lineStyle: lineStyle === 'dashed' ? 2 : lineStyle === 'dotted' ? 3 : 0,
               axisLabelVisible: true,
-              title: ''
+              title: priceLineTitle(d.data.alert ?? null)
             });
 
             uniqueLines.push({
@@ -595,6 +2017,8 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
               price: priceValue,
               color: colorValue,
               width: widthValue,
+              allTimeframes: d.data.allTimeframes !== false,
+              alert: d.data.alert ?? null,
               priceLine
             });
           } catch (error) {
@@ -604,6 +2028,7 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
 
         if (!cancelled) {
           setHorizontalLines(uniqueLines);
+          setDrawings(loadedDrawings);
           chartRef.current?.priceScale('right').applyOptions({ autoScale: true });
         }
       } catch (error) {
@@ -623,22 +2048,39 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
       return;
     }
 
+    const handleReplayPickMouseDownListener = (event: MouseEvent) => handleReplayPickMouseDown(event);
+    const handleMeasureMouseDownListener = (event: MouseEvent) => handleMeasureMouseDown(event);
+    const handleDrawingMouseDownListener = (event: MouseEvent) => handleDrawingMouseDown(event);
     const handleMouseDownListener = (event: MouseEvent) => handleMouseDownOnChart(event);
     const handleMouseMoveListener = (event: MouseEvent) => handleMouseMove(event);
     const handleMouseUpListener = () => handleMouseUp();
 
+    container.addEventListener('mousedown', handleReplayPickMouseDownListener, true);
+    container.addEventListener('mousedown', handleMeasureMouseDownListener, true);
+    container.addEventListener('mousedown', handleDrawingMouseDownListener, true);
     container.addEventListener('mousedown', handleMouseDownListener);
     window.addEventListener('mousemove', handleMouseMoveListener);
     window.addEventListener('mouseup', handleMouseUpListener);
 
     return () => {
+      container.removeEventListener('mousedown', handleReplayPickMouseDownListener, true);
+      container.removeEventListener('mousedown', handleMeasureMouseDownListener, true);
+      container.removeEventListener('mousedown', handleDrawingMouseDownListener, true);
       container.removeEventListener('mousedown', handleMouseDownListener);
       window.removeEventListener('mousemove', handleMouseMoveListener);
       window.removeEventListener('mouseup', handleMouseUpListener);
       document.body.style.cursor = 'default';
       draggingLineRef.current = null;
+      drawingDragRef.current = null;
+      measureStartRef.current = null;
     };
-  }, [handleMouseDownOnChart, handleMouseMove, handleMouseUp]);
+  }, [handleReplayPickMouseDown, handleMeasureMouseDown, handleDrawingMouseDown, handleMouseDownOnChart, handleMouseMove, handleMouseUp]);
+
+  // Escape（App のショートカット）や銘柄・時間足の切り替えで測定表示を消す
+  useEffect(() => {
+    measureStartRef.current = null;
+    drawingLayerRef.current?.setMeasurement(null);
+  }, [measureResetKey, ticker, timeFrame]);
 
   useEffect(() => {
     return () => {
@@ -661,8 +2103,45 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
       return;
     }
 
+    // トレンドライン・四角形：1回目のクリックで始点、2回目で終点を確定
+    if (twoPointTool) {
+      const layer = drawingLayerRef.current;
+      const anchor = layer?.pointToAnchor(param.point.x, param.point.y);
+      if (!layer || !anchor) {
+        return;
+      }
+
+      const startAnchor = pendingAnchorRef.current;
+      if (!startAnchor) {
+        pendingAnchorRef.current = anchor;
+        layer.setPreview(createTwoPointDraft(twoPointTool, anchor, anchor));
+        return;
+      }
+
+      pendingAnchorRef.current = null;
+      layer.setPreview(null);
+      await addDrawing(createTwoPointDraft(twoPointTool, startAnchor, anchor));
+      return;
+    }
+
+    // テキスト：クリック位置を記録し、編集ダイアログで文字を入力してから保存
+    if (drawingTool === 'text') {
+      const anchor = drawingLayerRef.current?.pointToAnchor(param.point.x, param.point.y);
+      if (!anchor) {
+        return;
+      }
+
+      setEditorColor(lineSettings.color);
+      setEditorText('');
+      setEditorFontSize(DEFAULT_TEXT_FONT_SIZE);
+      setEditorAllTimeframes(true);
+      setLineEditorState({ open: true, lineId: null, textAnchor: anchor });
+      return;
+    }
+
     if (!horizontalLineMode) {
       const line = findLineNearCoordinate(param.point.y);
+      setSelectedDrawingId(null);
       if (line) {
         setSelectedLineId(line.id);
         const coord = seriesRef.current.priceToCoordinate(line.price);
@@ -679,8 +2158,8 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
       return;
     }
 
-    await addHorizontalLine(price);
-  }, [horizontalLineMode, findLineNearCoordinate, addHorizontalLine]);
+    await addHorizontalLine(price, param.point.x);
+  }, [horizontalLineMode, twoPointTool, drawingTool, lineSettings.color, findLineNearCoordinate, addHorizontalLine, addDrawing, createTwoPointDraft]);
 
   // 色選択後の処理
   const handleColorSelect = useCallback((color: string) => {
@@ -703,7 +2182,7 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
   }, [startDrag]);
 
   const handleDoubleClick = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
-    if (!chartContainerRef.current || !seriesRef.current) {
+    if (!chartContainerRef.current || !seriesRef.current || (drawingTool && drawingTool !== 'horizontal_line')) {
       return;
     }
 
@@ -717,20 +2196,30 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
 
     doubleClickRef.current = true;
     event.preventDefault();
-    addHorizontalLine(price);
+    addHorizontalLine(price, event.clientX - rect.left);
     requestAnimationFrame(() => {
       doubleClickRef.current = false;
     });
-  }, [addHorizontalLine]);
+  }, [addHorizontalLine, drawingTool]);
 
   const openLineEditor = useCallback((lineId: string) => {
-    const target = horizontalLinesRef.current.find(line => line.id === lineId);
+    const target = horizontalLinesRef.current.find(line => line.id === lineId)
+      ?? drawingsRef.current.find(drawing => drawing.id === lineId);
     if (!target) {
       return;
     }
 
     setEditorColor(target.color);
-    setEditorWidth(target.width);
+    setEditorAllTimeframes(target.allTimeframes);
+    setEditorAlert('alert' in target ? target.alert : null);
+    setEditorPrice('price' in target ? formatPrice(target.price, pricePrecisionRef.current.precision) : '');
+    if ('type' in target && target.type === 'text') {
+      setEditorText(target.text);
+      setEditorFontSize(target.fontSize);
+    } else {
+      setEditorWidth(target.width);
+      setEditorExtendRight('extendRight' in target ? target.extendRight : false);
+    }
     setLineEditorState({ open: true, lineId });
     setContextMenu(null);
   }, []);
@@ -740,27 +2229,87 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
   }, []);
 
   const handleEditorConfirm = useCallback(async () => {
-    if (!lineEditorState.lineId) {
+    const { lineId: editingLineId, textAnchor } = lineEditorState;
+
+    if (textAnchor) {
+      setLineEditorState({ open: false, lineId: null });
+      if (editorText.trim()) {
+        await addDrawing({
+          type: 'text',
+          anchor: textAnchor,
+          text: editorText.trim(),
+          color: editorColor,
+          fontSize: editorFontSize,
+          allTimeframes: editorAllTimeframes
+        });
+      }
+      return;
+    }
+
+    if (!editingLineId) {
       return;
     }
 
+    // 「この時間足のみ」にした場合は、編集したペインの時間足に付け替える
+    const scopeUpdates = editorAllTimeframes
+      ? { allTimeframes: true }
+      : { allTimeframes: false, timeframe: timeFrame };
+
+    const editingDrawing = drawingsRef.current.find(drawing => drawing.id === editingLineId);
+    if (editingDrawing) {
+      let updates: Record<string, any>;
+      let updated: AnchoredDrawing;
+      if (editingDrawing.type === 'text') {
+        updates = { color: editorColor, text: editorText.trim() || editingDrawing.text, fontSize: editorFontSize };
+        updated = { ...editingDrawing, ...updates, allTimeframes: editorAllTimeframes };
+      } else if (editingDrawing.type === 'trend_line') {
+        updates = { color: editorColor, width: editorWidth, extendRight: editorExtendRight };
+        updated = { ...editingDrawing, ...updates, allTimeframes: editorAllTimeframes };
+      } else {
+        updates = { color: editorColor, width: editorWidth };
+        updated = { ...editingDrawing, ...updates, allTimeframes: editorAllTimeframes };
+      }
+
+      setDrawings(prev => prev.map(drawing => drawing.id === editingLineId ? updated : drawing));
+
+      try {
+        await drawingHistory.update(editingLineId, { ...updates, ...scopeUpdates }, userId);
+        onHorizontalLineAdded?.();
+      } catch (error) {
+        console.error(`[ChartPane] Failed to update ${editingDrawing.type}:`, error);
+      }
+
+      setLineEditorState({ open: false, lineId: null });
+      return;
+    }
+
+    // 価格の入力が不正な場合は元の価格のままにする
+    const editingLine = horizontalLinesRef.current.find(line => line.id === editingLineId);
+    const enteredPrice = Number(editorPrice);
+    const price = Number.isFinite(enteredPrice) && enteredPrice > 0 ? enteredPrice : editingLine?.price;
+
     setHorizontalLines(prev => {
       const updated = prev.map(line => {
-        if (line.id !== lineEditorState.lineId) {
+        if (line.id !== editingLineId) {
           return line;
         }
 
         if (line.priceLine) {
           line.priceLine.applyOptions({
+            price: price ?? line.price,
             color: editorColor,
-            lineWidth: editorWidth as any
+            lineWidth: editorWidth as any,
+            title: priceLineTitle(editorAlert)
           });
         }
 
         return {
           ...line,
+          price: price ?? line.price,
           color: editorColor,
-          width: editorWidth
+          width: editorWidth,
+          allTimeframes: editorAllTimeframes,
+          alert: editorAlert
         };
       });
 
@@ -769,9 +2318,12 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
     });
 
     try {
-      await database.updateChartDrawing(lineEditorState.lineId, {
+      await drawingHistory.update(editingLineId, {
+        ...(price !== undefined ? { price } : {}),
         color: editorColor,
-        width: editorWidth
+        width: editorWidth,
+        alert: editorAlert,
+        ...scopeUpdates
       }, userId);
       onHorizontalLineAdded?.();
     } catch (error) {
@@ -781,11 +2333,26 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
     setLineEditorState({ open: false, lineId: null });
     chartRef.current?.priceScale('right').applyOptions({ autoScale: true });
     updateHandlePosition();
-  }, [editorColor, editorWidth, lineEditorState.lineId, onHorizontalLineAdded, userId, updateHandlePosition]);
+  }, [
+    editorColor,
+    editorWidth,
+    editorExtendRight,
+    editorAllTimeframes,
+    editorAlert,
+    editorPrice,
+    editorText,
+    editorFontSize,
+    lineEditorState,
+    timeFrame,
+    addDrawing,
+    onHorizontalLineAdded,
+    userId,
+    updateHandlePosition
+  ]);
 
   // 水平線削除処理
   const handleDeleteLine = useCallback(async (lineId: string) => {
-    const success = await database.deleteChartDrawing(lineId, userId);
+    const success = await drawingHistory.delete(lineId, userId);
     if (success) {
       setHorizontalLines(prev => {
         const remaining = prev.filter(l => {
@@ -797,6 +2364,7 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
         horizontalLinesRef.current = remaining;
         return remaining;
       });
+      setDrawings(prev => prev.filter(drawing => drawing.id !== lineId));
       
       // 他のチャートも更新（削除の同期）
       onHorizontalLineAdded?.();
@@ -804,13 +2372,16 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
         setSelectedLineId(null);
         setHandleY(null);
       }
+      if (selectedDrawingId === lineId) {
+        setSelectedDrawingId(null);
+      }
       chartRef.current?.priceScale('right').applyOptions({ autoScale: true });
     }
     setContextMenu(null);
     if (lineEditorState.lineId === lineId) {
       setLineEditorState({ open: false, lineId: null });
     }
-  }, [onHorizontalLineAdded, lineEditorState.lineId, userId, selectedLineId]);
+  }, [onHorizontalLineAdded, lineEditorState.lineId, userId, selectedLineId, selectedDrawingId]);
 
   // チャート上でクリックイベントを設定
   useEffect(() => {
@@ -826,6 +2397,23 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
   const handleContextMenu = useCallback((e: React.MouseEvent) => {
     e.preventDefault();
     
+    // トレンドライン・四角形・テキスト上かチェック
+    if (chartContainerRef.current && drawingLayerRef.current) {
+      const rect = chartContainerRef.current.getBoundingClientRect();
+      const hit = drawingLayerRef.current.findDrawingAt(e.clientX - rect.left, e.clientY - rect.top);
+      if (hit) {
+        setSelectedLineId(null);
+        setHandleY(null);
+        setSelectedDrawingId(hit.id);
+        setContextMenu({
+          x: e.clientX,
+          y: e.clientY,
+          lineId: hit.id
+        });
+        return;
+      }
+    }
+
     // 水平線上かチェック
     const clickY = e.nativeEvent.offsetY;
     const clickedLine = horizontalLines.find(line => {
@@ -837,6 +2425,7 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
     });
     
     if (clickedLine && seriesRef.current) {
+      setSelectedDrawingId(null);
       setSelectedLineId(clickedLine.id);
       const coord = seriesRef.current.priceToCoordinate(clickedLine.price);
       setHandleY(coord ?? null);
@@ -849,14 +2438,203 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
     });
   }, [horizontalLines]);
 
+  const drawingTypeOf = (id: string | null | undefined): EditableDrawingType => {
+    return drawings.find(drawing => drawing.id === id)?.type ?? 'horizontal_line';
+  };
+  const editingType: EditableDrawingType = lineEditorState.textAnchor ? 'text' : drawingTypeOf(lineEditorState.lineId);
+  const contextMenuTargetType = drawingTypeOf(contextMenu?.lineId);
+
+  // 凡例はクロスヘア位置のバー、カーソルがチャート外なら最新のバーを表示する
+  const hoveredIndex = hoveredBar ? priceData.indexOf(hoveredBar) : -1;
+  const legendIndex = hoveredIndex >= 0 ? hoveredIndex : priceData.length - 1;
+  const legendBar = legendIndex >= 0 ? priceData[legendIndex] : null;
+  const legendPreviousClose = legendIndex > 0 ? priceData[legendIndex - 1].close : null;
+  const legendChange = legendBar && legendPreviousClose !== null ? legendBar.close - legendPreviousClose : null;
+  const legendChangePercent = legendChange !== null && legendPreviousClose ? (legendChange / legendPreviousClose) * 100 : null;
+
   return (
     <div className="chart-pane">
       <div className="chart-header">
         <div className="chart-title">
           {title} - {ticker}
-          {horizontalLineMode && <span style={{ marginLeft: '10px', color: '#ff0000' }}>📏 水平線モード</span>}
+          {drawingTool && (
+            <span style={{ marginLeft: '10px', color: '#ff0000' }}>
+              {DRAWING_MODE_ICONS[drawingTool]} {DRAWING_LABELS[drawingTool]}モード
+            </span>
+          )}
+          {isPickingReplayStart && (
+            <span style={{ marginLeft: '10px', color: '#ff0000' }}>
+              ⏪ クリックしたバーからリプレイ
+            </span>
+          )}
+        </div>
+        <div className="chart-header-tools">
+          <div className="chart-indicator-legend">
+            {movingAverages.filter(config => config.enabled).map((config, index) => (
+              <span key={`${config.type}-${config.period}-${index}`} style={{ color: config.color }}>
+                {config.type}{config.period}
+              </span>
+            ))}
+            {compareSymbols.map((symbol, index) => (
+              <span key={symbol} style={{ color: COMPARE_COLORS[index % COMPARE_COLORS.length] }}>
+                {symbol}
+              </span>
+            ))}
+          </div>
+          <div className="compare-control">
+            <button
+              className={`chart-header-button ${compareSymbols.length > 0 ? 'active' : ''}`}
+              onClick={() => setIsCompareMenuOpen(prev => !prev)}
+              title="他の銘柄・指数と比較"
+            >
+              比較
+            </button>
+            {isCompareMenuOpen && (
+              <div className="compare-menu">
+                {COMPARE_PRESETS.map(preset => (
+                  <label key={preset.symbol} className="compare-menu-item">
+                    <input
+                      type="checkbox"
+                      checked={compareSymbols.includes(preset.symbol)}
+                      onChange={(e) => (e.target.checked ? addCompareSymbol(preset.symbol) : removeCompareSymbol(preset.symbol))}
+                    />
+                    {preset.label}
+                  </label>
+                ))}
+                {compareSymbols.filter(symbol => !COMPARE_PRESETS.some(preset => preset.symbol === symbol)).map(symbol => (
+                  <div key={symbol} className="compare-menu-item">
+                    <span>{symbol}</span>
+                    <button className="compare-menu-remove" onClick={() => removeCompareSymbol(symbol)} title="比較をやめる">×</button>
+                  </div>
+                ))}
+                <form
+                  className="compare-menu-input"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    addCompareSymbol(compareInput);
+                  }}
+                >
+                  <input
+                    type="text"
+                    value={compareInput}
+                    onChange={(e) => setCompareInput(e.target.value)}
+                    placeholder="銘柄コード"
+                  />
+                  <button type="submit" disabled={compareSymbols.length >= MAX_COMPARE_SYMBOLS}>追加</button>
+                </form>
+              </div>
+            )}
+          </div>
+          {onPriceOverlaysChange && PRICE_OVERLAY_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              className={`chart-header-button ${priceOverlays.includes(option.value) ? 'active' : ''}`}
+              onClick={() => togglePriceOverlay(option.value)}
+              title={option.description}
+            >
+              {option.label}
+            </button>
+          ))}
+          {PRICE_SCALE_MODE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              className={`chart-header-button ${effectivePriceScaleMode === option.value ? 'active' : ''}`}
+              onClick={() => setPriceScaleMode(prev => (prev === option.value ? 'normal' : option.value))}
+              disabled={compareSymbols.length > 0}
+              title={compareSymbols.length > 0 ? '比較表示中はパーセント表示になります' : option.description}
+            >
+              {option.label}
+            </button>
+          ))}
+          {onTimeFrameChange && (
+            <select
+              className="chart-header-select"
+              value={timeFrame}
+              onChange={(e) => onTimeFrameChange(e.target.value as TimeFrame)}
+              title="時間足"
+            >
+              {TIME_FRAME_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          )}
+          {onChartStyleChange && (
+            <select
+              className="chart-header-select"
+              value={chartStyle}
+              onChange={(e) => onChartStyleChange(e.target.value as ChartStyle)}
+              title="チャートの種類"
+            >
+              {CHART_STYLE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          )}
+          {onOscillatorChange && (
+            <select
+              className="chart-header-select"
+              value={oscillator}
+              onChange={(e) => onOscillatorChange(e.target.value as OscillatorType)}
+              title="オシレーター"
+            >
+              {OSCILLATOR_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          )}
+          {onMovingAveragesChange && (
+            <button
+              className="chart-header-button"
+              onClick={() => setIsMaEditorOpen(true)}
+              title="移動平均線の設定"
+            >
+              MA
+            </button>
+          )}
+          {onDetach && (
+            <button
+              className="chart-header-button"
+              onClick={onDetach}
+              title="別ウィンドウで開く"
+            >
+              <i className="fas fa-external-link-alt"></i>
+            </button>
+          )}
         </div>
       </div>
+
+      {legendBar && (
+        <div className="chart-legend">
+          <span className="chart-legend-date">{formatLegendDate(legendBar.time, timeFrame)}</span>
+          <span>O <b>{formatLegendPrice(legendBar.open, pricePrecision.precision)}</b></span>
+          <span>H <b>{formatLegendPrice(legendBar.high, pricePrecision.precision)}</b></span>
+          <span>L <b>{formatLegendPrice(legendBar.low, pricePrecision.precision)}</b></span>
+          <span>C <b>{formatLegendPrice(legendBar.close, pricePrecision.precision)}</b></span>
+          {legendChange !== null && (
+            <span style={{ color: legendChange > 0 ? getChartColors().bullish.body : legendChange < 0 ? getChartColors().bearish.body : undefined }}>
+              {legendChange > 0 ? '+' : ''}{formatLegendPrice(legendChange, pricePrecision.precision)}
+              {legendChangePercent !== null && ` (${legendChange > 0 ? '+' : ''}${legendChangePercent.toFixed(2)}%)`}
+            </span>
+          )}
+          <span>V <b>{formatLegendNumber(legendBar.volume ?? 0, 0)}</b></span>
+          {legendIndicators.map(indicator => {
+            const value = indicator.values.get(legendBar.time);
+            return value === undefined ? null : (
+              <span key={indicator.key} style={{ color: indicator.color }}>
+                {indicator.label} {indicator.isPrice ? formatLegendPrice(value, pricePrecision.precision) : formatLegendNumber(value)}
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      <MovingAverageEditor
+        isOpen={isMaEditorOpen}
+        title={title}
+        configs={movingAverages}
+        onClose={() => setIsMaEditorOpen(false)}
+        onSave={handleMovingAveragesSave}
+      />
       
       <div className="chart-container">
         {isLoading && (
@@ -877,7 +2655,7 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
             width: '100%',
             height: '100%',
             visibility: isLoading || error ? 'hidden' : 'visible',
-            cursor: horizontalLineMode ? 'crosshair' : 'default'
+            cursor: drawingTool || isPickingReplayStart ? 'crosshair' : 'default'
           }}
           onContextMenu={handleContextMenu}
           onDoubleClick={handleDoubleClick}
@@ -936,7 +2714,24 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
                 minWidth: '280px'
               }}
             >
-              <h3 style={{ marginTop: 0 }}>水平線の設定</h3>
+              <h3 style={{ marginTop: 0 }}>{DRAWING_LABELS[editingType]}の設定</h3>
+              {editingType === 'text' && (
+                <div style={{ marginBottom: '16px' }}>
+                  <input
+                    type="text"
+                    value={editorText}
+                    onChange={(e) => setEditorText(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        handleEditorConfirm();
+                      }
+                    }}
+                    placeholder="テキストを入力"
+                    autoFocus
+                    style={{ width: '100%', padding: '6px 8px', boxSizing: 'border-box' }}
+                  />
+                </div>
+              )}
               <div className="color-options" style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', marginBottom: '16px' }}>
                 {HORIZONTAL_LINE_COLORS.map(({ name, color }) => (
                   <div
@@ -958,16 +2753,98 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
                 ))}
               </div>
 
+              {editingType === 'text' ? (
+                <div style={{ marginBottom: '16px' }}>
+                  <label style={{ display: 'block', marginBottom: '8px', fontWeight: 600 }}>文字サイズ: {editorFontSize}px</label>
+                  <input
+                    type="range"
+                    min={10}
+                    max={32}
+                    value={editorFontSize}
+                    onChange={(e) => setEditorFontSize(Number(e.target.value))}
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              ) : (
+                <div style={{ marginBottom: '16px' }}>
+                  <label style={{ display: 'block', marginBottom: '8px', fontWeight: 600 }}>太さ: {editorWidth}px</label>
+                  <input
+                    type="range"
+                    min={1}
+                    max={8}
+                    value={editorWidth}
+                    onChange={(e) => setEditorWidth(Number(e.target.value))}
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              )}
+
+              {editingType === 'trend_line' && (
+                <div style={{ marginBottom: '16px' }}>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                    <input
+                      type="checkbox"
+                      checked={editorExtendRight}
+                      onChange={(e) => setEditorExtendRight(e.target.checked)}
+                    />
+                    右に延長
+                  </label>
+                </div>
+              )}
+
+              {editingType === 'horizontal_line' && (
+                <div style={{ marginBottom: '16px' }}>
+                  <label style={{ display: 'block', marginBottom: '8px', fontWeight: 600 }}>価格</label>
+                  <input
+                    type="number"
+                    value={editorPrice}
+                    step={pricePrecision.minMove}
+                    min={0}
+                    onChange={(e) => setEditorPrice(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        handleEditorConfirm();
+                      }
+                    }}
+                    style={{ width: '100%', padding: '4px 8px', boxSizing: 'border-box' }}
+                  />
+                </div>
+              )}
+
+              {editingType === 'horizontal_line' && (
+                <div style={{ marginBottom: '16px' }}>
+                  <label style={{ display: 'block', marginBottom: '8px', fontWeight: 600 }}>価格アラート</label>
+                  <select
+                    value={editorAlert ?? ''}
+                    onChange={(e) => setEditorAlert((e.target.value || null) as PriceAlertCondition | null)}
+                    style={{ width: '100%', padding: '4px 8px' }}
+                  >
+                    <option value="">なし</option>
+                    {(Object.keys(PRICE_ALERT_LABELS) as PriceAlertCondition[]).map(condition => (
+                      <option key={condition} value={condition}>{PRICE_ALERT_LABELS[condition]}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div style={{ marginBottom: '16px' }}>
-                <label style={{ display: 'block', marginBottom: '8px', fontWeight: 600 }}>太さ: {editorWidth}px</label>
-                <input
-                  type="range"
-                  min={1}
-                  max={8}
-                  value={editorWidth}
-                  onChange={(e) => setEditorWidth(Number(e.target.value))}
-                  style={{ width: '100%' }}
-                />
+                <div style={{ marginBottom: '8px', fontWeight: 600 }}>表示する時間足</div>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+                  <input
+                    type="radio"
+                    checked={editorAllTimeframes}
+                    onChange={() => setEditorAllTimeframes(true)}
+                  />
+                  全ての時間足
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                  <input
+                    type="radio"
+                    checked={!editorAllTimeframes}
+                    onChange={() => setEditorAllTimeframes(false)}
+                  />
+                  この時間足のみ（{title}）
+                </label>
               </div>
 
               <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
@@ -1031,7 +2908,7 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
                     textAlign: 'left'
                   }}
                 >
-                  色と太さを変更
+                  {contextMenuTargetType === 'text' ? 'テキストを編集' : '色と太さを変更'}
                 </button>
                 <button
                   onClick={() => handleDeleteLine(contextMenu.lineId!)}
@@ -1045,7 +2922,7 @@ const findLineNearCoordinate = useCallback((coordinateY: number) => {
                     textAlign: 'left'
                   }}
                 >
-                  この水平線を削除
+                  この{DRAWING_LABELS[contextMenuTargetType]}を削除
                 </button>
               </>
             ) : null}
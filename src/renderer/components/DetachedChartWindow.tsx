@@ -0,0 +1,170 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import ChartPane from './ChartPane';
+import { simpleAuthService } from '../../lib/auth-simple';
+import { database } from '../../lib/database';
+import { PANE_CONTENT_LABELS } from '../../lib/layouts';
+import type {
+  HorizontalLineSettings,
+  MovingAverageSettings,
+  OscillatorSettings,
+  OscillatorType,
+  PriceOverlaySettings
+} from '../../lib/types';
+import type { TimeFrame, WindowSyncEvent } from '../types';
+
+interface DetachedChartWindowProps {
+  windowId: string;
+  initialTimeFrame: TimeFrame;
+  initialTicker: string;
+}
+
+// 別ウィンドウに切り出したチャート1枚の画面
+// 銘柄はメインウィンドウに追従し、クロスヘアと描画の更新は他のウィンドウと同期する
+export const DetachedChartWindow: React.FC<DetachedChartWindowProps> = ({
+  windowId,
+  initialTimeFrame,
+  initialTicker
+}) => {
+  const [ticker, setTicker] = useState(initialTicker);
+  const [timeFrame, setTimeFrame] = useState<TimeFrame>(initialTimeFrame);
+  const [authState, setAuthState] = useState({
+    user: null as any,
+    loading: true,
+    error: null as string | null
+  });
+  const [lineSettings, setLineSettings] = useState<HorizontalLineSettings | null>(null);
+  const [movingAverageSettings, setMovingAverageSettings] = useState<MovingAverageSettings>({});
+  const [oscillatorSettings, setOscillatorSettings] = useState<OscillatorSettings>({});
+  const [priceOverlaySettings, setPriceOverlaySettings] = useState<PriceOverlaySettings>({});
+  const [syncedPrice, setSyncedPrice] = useState<number | null>(null);
+  const [syncedTime, setSyncedTime] = useState<any>(null);
+  const [sourceChart, setSourceChart] = useState<string>('');
+  const [sourceTimeFrame, setSourceTimeFrame] = useState<TimeFrame | null>(null);
+  const [horizontalLineUpdate, setHorizontalLineUpdate] = useState(0);
+  // 表示中の銘柄のデータが更新されたら、チャートを作り直して読み込み直す
+  const [dataVersion, setDataVersion] = useState(0);
+
+  // 認証状態はメインウィンドウと同じセッションから復元する
+  useEffect(() => {
+    simpleAuthService.initialize();
+    return simpleAuthService.subscribe(setAuthState);
+  }, []);
+
+  useEffect(() => {
+    if (authState.loading) {
+      return;
+    }
+
+    const loadSettings = async () => {
+      try {
+        const userId = authState.user?.id;
+        const [line, movingAverages, oscillators, overlays] = await Promise.all([
+          database.getHorizontalLineSettings(userId),
+          database.getMovingAverageSettings(userId),
+          database.getOscillatorSettings(userId),
+          database.getPriceOverlaySettings(userId)
+        ]);
+        setLineSettings(line);
+        setMovingAverageSettings(movingAverages);
+        setOscillatorSettings(oscillators);
+        setPriceOverlaySettings(overlays);
+      } catch (error) {
+        console.error('[DetachedChartWindow] Failed to load settings:', error);
+      }
+    };
+
+    loadSettings();
+  }, [authState.loading, authState.user]);
+
+  // 他のウィンドウからの同期イベントを受け取る
+  useEffect(() => {
+    const unsubscribe = window.electronAPI?.onSyncEvent?.((event: WindowSyncEvent) => {
+      if (event.type === 'ticker') {
+        setTicker(event.ticker);
+      } else if (event.type === 'crosshair') {
+        setSyncedPrice(event.price);
+        setSyncedTime(event.time);
+        setSourceChart(event.sourceChart);
+        setSourceTimeFrame(event.sourceTimeFrame);
+      } else if (event.type === 'drawings') {
+        setHorizontalLineUpdate(prev => prev + 1);
+      }
+    });
+
+    // 前回のウィンドウを開き直したときは銘柄が分からないので、メインウィンドウに問い合わせる
+    window.electronAPI?.broadcastSync?.({ type: 'request-ticker' });
+
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    return window.electronAPI?.onDataUpdated?.((updatedTicker: string) => {
+      if (updatedTicker === ticker) {
+        setDataVersion(prev => prev + 1);
+      }
+    });
+  }, [ticker]);
+
+  useEffect(() => {
+    document.title = ticker ? `${PANE_CONTENT_LABELS[timeFrame]} - ${ticker}` : PANE_CONTENT_LABELS[timeFrame];
+  }, [ticker, timeFrame]);
+
+  const handleCrosshairMove = useCallback((price: number | null, time: any, paneId: string, paneTimeFrame: TimeFrame) => {
+    setSyncedPrice(price);
+    setSyncedTime(time);
+    setSourceChart(paneId);
+    setSourceTimeFrame(paneTimeFrame);
+    window.electronAPI?.broadcastSync?.({ type: 'crosshair', price, time, sourceChart: paneId, sourceTimeFrame: paneTimeFrame });
+  }, []);
+
+  const handleDrawingsChanged = useCallback(() => {
+    setHorizontalLineUpdate(prev => prev + 1);
+    window.electronAPI?.broadcastSync?.({ type: 'drawings' });
+  }, []);
+
+  const handleOscillatorChange = useCallback(async (oscillator: OscillatorType) => {
+    setOscillatorSettings(prev => ({ ...prev, [windowId]: oscillator }));
+    try {
+      await database.saveOscillatorSetting(authState.user?.id, windowId, oscillator);
+    } catch (error) {
+      console.error('[DetachedChartWindow] Failed to save oscillator setting:', error);
+    }
+  }, [authState.user, windowId]);
+
+  const handleTimeFrameChange = useCallback((value: TimeFrame) => {
+    setTimeFrame(value);
+    window.electronAPI?.setDetachedWindowTimeFrame?.(windowId, value);
+  }, [windowId]);
+
+  if (authState.loading || !lineSettings) {
+    return <div className="chart-loading">読み込み中...</div>;
+  }
+
+  return (
+    <div className="detached-window">
+      <ChartPane
+        key={dataVersion}
+        ticker={ticker}
+        timeFrame={timeFrame}
+        onTimeFrameChange={handleTimeFrameChange}
+        title={PANE_CONTENT_LABELS[timeFrame]}
+        paneId={windowId}
+        onCrosshairMove={handleCrosshairMove}
+        syncedPrice={syncedPrice}
+        syncedTime={syncedTime}
+        sourceChart={sourceChart}
+        sourceTimeFrame={sourceTimeFrame}
+        onHorizontalLineAdded={handleDrawingsChanged}
+        horizontalLineUpdate={horizontalLineUpdate}
+        lineSettings={lineSettings}
+        userId={authState.user?.id}
+        movingAverages={movingAverageSettings[timeFrame]}
+        oscillator={oscillatorSettings[windowId] ?? oscillatorSettings[timeFrame]}
+        onOscillatorChange={handleOscillatorChange}
+        priceOverlays={priceOverlaySettings[timeFrame]}
+      />
+    </div>
+  );
+};
+
+export default DetachedChartWindow;
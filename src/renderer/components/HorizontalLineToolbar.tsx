@@ -1,9 +1,10 @@
 import React from 'react';
 import type { HorizontalLineSettings } from '../../lib/types';
+import type { DrawingTool } from '../types';
 
 interface HorizontalLineToolbarProps {
-  isActive: boolean;
-  onToggle: () => void;
+  activeTool: DrawingTool | null;
+  onSelectTool: (tool: DrawingTool) => void;
   settings: HorizontalLineSettings;
   onChange: (settings: HorizontalLineSettings) => void;
 }
@@ -23,22 +24,36 @@ const PRESET_COLORS = [
   { label: 'カスタム', value: '#808080' }
 ];
 
+const DRAWING_TOOLS: { tool: DrawingTool; label: string; title: string }[] = [
+  { tool: 'horizontal_line', label: '水平線を追加', title: 'クリックした価格に水平線を引く (H)' },
+  { tool: 'trend_line', label: 'トレンドライン', title: '2点をクリックしてトレンドラインを引く' },
+  { tool: 'rectangle', label: '四角形', title: '対角の2点をクリックして価格帯・期間を囲む' },
+  { tool: 'text', label: 'テキスト', title: 'クリックした位置にテキストを配置する' },
+  { tool: 'fibonacci', label: 'フィボナッチ', title: 'スイングの始点と終点をクリックしてフィボナッチ・リトレースメントを引く' }
+];
+
 export const HorizontalLineToolbar: React.FC<HorizontalLineToolbarProps> = ({
-  isActive,
-  onToggle,
+  activeTool,
+  onSelectTool,
   settings,
   onChange
 }) => {
   return (
     <div className="horizontal-line-toolbar">
-      <button
-        className={`hl-toggle ${isActive ? 'active' : ''}`}
-        onClick={onToggle}
-      >
-        {isActive ? 'キャンセル' : '水平線を追加'}
-      </button>
+      <div className="hl-tools">
+        {DRAWING_TOOLS.map(({ tool, label, title }) => (
+          <button
+            key={tool}
+            className={`hl-toggle ${activeTool === tool ? 'active' : ''}`}
+            onClick={() => onSelectTool(tool)}
+            title={title}
+          >
+            {activeTool === tool ? 'キャンセル' : label}
+          </button>
+        ))}
+      </div>
 
-      <div className="hl-colors" title="新しい水平線の色">
+      <div className="hl-colors" title="新しい描画の色">
         {PRESET_COLORS.map(({ label, value }) => (
           <button
             key={value}
@@ -50,7 +65,24 @@ export const HorizontalLineToolbar: React.FC<HorizontalLineToolbarProps> = ({
         ))}
       </div>
 
-      <div className="hl-width" title="新しい水平線の太さ">
+      <div className="hl-snap">
+        <button
+          className={`hl-toggle ${settings.snapToTick ? 'active' : ''}`}
+          onClick={() => onChange({ ...settings, snapToTick: !settings.snapToTick })}
+          title="水平線の価格を呼値の単位に合わせる"
+        >
+          呼値に合わせる
+        </button>
+        <button
+          className={`hl-toggle ${settings.magnet ? 'active' : ''}`}
+          onClick={() => onChange({ ...settings, magnet: !settings.magnet })}
+          title="水平線を近くのバーの始値・高値・安値・終値に吸着させる"
+        >
+          <i className="fas fa-magnet"></i> マグネット
+        </button>
+      </div>
+
+      <div className="hl-width" title="新しい描画の太さ">
         <label htmlFor="hl-width-slider">太さ: {settings.width}px</label>
         <input
           id="hl-width-slider"
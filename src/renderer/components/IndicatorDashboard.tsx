@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { database } from '../../lib/database';
+import {
+  calculateMACD,
+  calculateRSI,
+  calculateSlowStochastics,
+  calculateSMA,
+  calculateVolumeSMA,
+  PriceBar
+} from '../../lib/indicators';
+import { getChartColors } from '../config/chartColors';
+import { toBarTime } from '../chart/timeMapping';
+
+interface IndicatorDashboardProps {
+  ticker: string;
+  rsRating?: number;
+}
+
+// 52週高値・安値と移動平均の計算に足りる本数の日足を読み込む
+const DASHBOARD_BAR_COUNT = 300;
+const WEEKS_52_BARS = 250;
+const DASHBOARD_MA_PERIODS = [5, 25, 75, 200];
+
+interface DashboardRow {
+  label: string;
+  value: string;
+  change?: number; // 正負で色を付ける値
+}
+
+const formatNumber = (value: number, fractionDigits = 2) => value.toLocaleString(undefined, {
+  minimumFractionDigits: 0,
+  maximumFractionDigits: fractionDigits
+});
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const lastValue = (points: { value: number }[]) => (points.length > 0 ? points[points.length - 1].value : null);
+
+// 表示中の銘柄の日足から、主要な指標の最新値を一覧にする
+export const IndicatorDashboard: React.FC<IndicatorDashboardProps> = ({ ticker, rsRating }) => {
+  const [bars, setBars] = useState<PriceBar[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!ticker) {
+      setBars([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    database.getStockData(ticker, '1D', DASHBOARD_BAR_COUNT)
+      .then(stockData => {
+        if (cancelled) {
+          return;
+        }
+        setBars(stockData
+          .map(data => ({
+            time: toBarTime(data.date),
+            open: Number(data.open),
+            high: Number(data.high),
+            low: Number(data.low),
+            close: Number(data.close),
+            volume: Number(data.volume) || 0
+          }))
+          .sort((a, b) => a.time - b.time));
+      })
+      .catch(error => {
+        console.error('[IndicatorDashboard] Failed to load stock data:', error);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ticker]);
+
+  const rows = useMemo((): DashboardRow[] => {
+    if (bars.length === 0) {
+      return [];
+    }
+
+    const latest = bars[bars.length - 1];
+    const previous = bars.length > 1 ? bars[bars.length - 2] : null;
+    const result: DashboardRow[] = [
+      { label: '日付', value: new Date(latest.time * 1000).toISOString().slice(0, 10) },
+      { label: '終値', value: formatNumber(latest.close) }
+    ];
+
+    if (previous) {
+      const change = latest.close - previous.close;
+      result.push({
+        label: '前日比',
+        value: `${change >= 0 ? '+' : ''}${formatNumber(change)} (${formatPercent((change / previous.close) * 100)})`,
+        change
+      });
+    }
+
+    DASHBOARD_MA_PERIODS.forEach(period => {
+      const sma = lastValue(calculateSMA(bars, period));
+      if (sma !== null) {
+        const deviation = ((latest.close - sma) / sma) * 100;
+        result.push({ label: `SMA${period}乖離`, value: `${formatNumber(sma)} (${formatPercent(deviation)})`, change: deviation });
+      }
+    });
+
+    const rsi = lastValue(calculateRSI(bars, 14));
+    if (rsi !== null) {
+      result.push({ label: 'RSI(14)', value: formatNumber(rsi, 1) });
+    }
+
+    const macd = calculateMACD(bars);
+    const macdValue = lastValue(macd.macd);
+    const signalValue = lastValue(macd.signal);
+    if (macdValue !== null && signalValue !== null) {
+      result.push({
+        label: 'MACD / シグナル',
+        value: `${formatNumber(macdValue)} / ${formatNumber(signalValue)}`,
+        change: macdValue - signalValue
+      });
+    }
+
+    const stochastics = calculateSlowStochastics(bars);
+    const kValue = lastValue(stochastics.k);
+    const dValue = lastValue(stochastics.d);
+    if (kValue !== null && dValue !== null) {
+      result.push({ label: 'ストキャス %K / %D', value: `${formatNumber(kValue, 1)} / ${formatNumber(dValue, 1)}` });
+    }
+
+    const volumeAverage = lastValue(calculateVolumeSMA(bars, 20));
+    if (volumeAverage) {
+      result.push({
+        label: '出来高（20日平均比）',
+        value: `${formatNumber(latest.volume ?? 0, 0)} (${formatNumber(((latest.volume ?? 0) / volumeAverage) * 100, 0)}%)`
+      });
+    }
+
+    const yearBars = bars.slice(-WEEKS_52_BARS);
+    const high = Math.max(...yearBars.map(bar => bar.high));
+    const low = Math.min(...yearBars.map(bar => bar.low));
+    result.push({ label: '52週高値', value: `${formatNumber(high)} (${formatPercent(((latest.close - high) / high) * 100)})` });
+    result.push({ label: '52週安値', value: `${formatNumber(low)} (${formatPercent(((latest.close - low) / low) * 100)})` });
+
+    if (rsRating !== undefined) {
+      result.push({ label: 'RSレーティング', value: String(rsRating) });
+    }
+
+    return result;
+  }, [bars, rsRating]);
+
+  const colors = getChartColors();
+
+  return (
+    <div className="indicator-dashboard">
+      {isLoading && rows.length === 0 ? (
+        <div className="chart-loading">読み込み中...</div>
+      ) : rows.length === 0 ? (
+        <div className="indicator-dashboard-empty">データがありません</div>
+      ) : (
+        <table>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label}>
+                <th>{row.label}</th>
+                <td
+                  style={row.change !== undefined && row.change !== 0
+                    ? { color: row.change > 0 ? colors.bullish.body : colors.bearish.body }
+                    : undefined}
+                >
+                  {row.value}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default IndicatorDashboard;
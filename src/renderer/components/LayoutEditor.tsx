@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import type { ChartLayout, LayoutPreset, LayoutSettings, PaneContent } from '../../lib/types';
+import {
+  createLayoutId,
+  fitSlotsToPreset,
+  getLayoutGridClass,
+  LAYOUT_PRESETS,
+  MAX_LAYOUT_HOTKEYS,
+  PANE_CONTENT_LABELS,
+  PANE_CONTENTS
+} from '../../lib/layouts';
+
+interface LayoutEditorProps {
+  isOpen: boolean;
+  settings: LayoutSettings;
+  onClose: () => void;
+  onSave: (settings: LayoutSettings) => void;
+}
+
+export const LayoutEditor: React.FC<LayoutEditorProps> = ({
+  isOpen,
+  settings,
+  onClose,
+  onSave
+}) => {
+  const [draft, setDraft] = useState<ChartLayout[]>(settings.layouts);
+  const [selectedId, setSelectedId] = useState(settings.activeLayoutId);
+
+  // 開くたびに現在の設定から編集を開始する
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(settings.layouts.map(layout => ({ ...layout, slots: [...layout.slots] })));
+      setSelectedId(settings.activeLayoutId);
+    }
+  }, [isOpen, settings]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const selected = draft.find(layout => layout.id === selectedId) ?? draft[0];
+
+  const updateSelected = (updates: Partial<ChartLayout>) => {
+    setDraft(prev => prev.map(layout => (layout.id === selected.id ? { ...layout, ...updates } : layout)));
+  };
+
+  const changePreset = (preset: LayoutPreset) => {
+    updateSelected({ preset, slots: fitSlotsToPreset(selected.slots, preset) });
+  };
+
+  const changeSlot = (index: number, content: PaneContent) => {
+    updateSelected({ slots: selected.slots.map((slot, i) => (i === index ? content : slot)) });
+  };
+
+  const addLayout = (source?: ChartLayout) => {
+    const layout: ChartLayout = source
+      ? { ...source, id: createLayoutId(), name: `${source.name}のコピー`, slots: [...source.slots] }
+      : { id: createLayoutId(), name: `レイアウト${draft.length + 1}`, preset: '2x2', slots: fitSlotsToPreset([], '2x2') };
+    setDraft(prev => [...prev, layout]);
+    setSelectedId(layout.id);
+  };
+
+  const removeSelected = () => {
+    const remaining = draft.filter(layout => layout.id !== selected.id);
+    setDraft(remaining);
+    setSelectedId(remaining[0].id);
+  };
+
+  return (
+    <div className="ma-editor-overlay" onClick={onClose}>
+      <div className="ma-editor layout-editor" onClick={e => e.stopPropagation()}>
+        <h3>レイアウト</h3>
+
+        <div className="layout-editor-body">
+          <div className="layout-editor-list">
+            {draft.map((layout, index) => (
+              <button
+                key={layout.id}
+                className={`layout-editor-item ${layout.id === selected.id ? 'active' : ''}`}
+                onClick={() => setSelectedId(layout.id)}
+              >
+                <span>{layout.name}</span>
+                {index < MAX_LAYOUT_HOTKEYS && <span className="layout-editor-hotkey">Ctrl+{index + 1}</span>}
+              </button>
+            ))}
+            <div className="layout-editor-list-actions">
+              <button onClick={() => addLayout()}>＋ 新規</button>
+              <button onClick={() => addLayout(selected)}>複製</button>
+              <button onClick={removeSelected} disabled={draft.length <= 1}>削除</button>
+            </div>
+          </div>
+
+          <div className="layout-editor-detail">
+            <div className="ma-editor-row">
+              <input
+                type="text"
+                value={selected.name}
+                onChange={(e) => updateSelected({ name: e.target.value })}
+                placeholder="レイアウト名"
+              />
+              <select value={selected.preset} onChange={(e) => changePreset(e.target.value as LayoutPreset)}>
+                {LAYOUT_PRESETS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className={`layout-editor-preview ${getLayoutGridClass(selected.preset)}`}>
+              {selected.slots.map((slot, index) => (
+                <div key={index} className="layout-editor-slot">
+                  <select value={slot} onChange={(e) => changeSlot(index, e.target.value as PaneContent)}>
+                    {PANE_CONTENTS.map(content => (
+                      <option key={content} value={content}>{PANE_CONTENT_LABELS[content]}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="ma-editor-actions">
+          <span className="layout-editor-hint">選択中のレイアウトを表示します</span>
+          <div className="ma-editor-buttons">
+            <button onClick={onClose}>キャンセル</button>
+            <button className="primary" onClick={() => onSave({ layouts: draft, activeLayoutId: selected.id })}>適用</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LayoutEditor;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import type { MovingAverageConfig, MovingAverageType } from '../../lib/types';
+
+interface MovingAverageEditorProps {
+  isOpen: boolean;
+  title: string;
+  configs: MovingAverageConfig[];
+  onClose: () => void;
+  onSave: (configs: MovingAverageConfig[]) => void;
+}
+
+const MA_COLORS = ['#F39C12', '#00B894', '#6A5ACD', '#E84393', '#0055FF', '#6C757D'];
+const MAX_MOVING_AVERAGES = 6;
+
+export const MovingAverageEditor: React.FC<MovingAverageEditorProps> = ({
+  isOpen,
+  title,
+  configs,
+  onClose,
+  onSave
+}) => {
+  const [draft, setDraft] = useState<MovingAverageConfig[]>(configs);
+
+  // 開くたびに現在の設定から編集を開始する
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(configs.map(config => ({ ...config })));
+    }
+  }, [isOpen, configs]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const updateConfig = (index: number, updates: Partial<MovingAverageConfig>) => {
+    setDraft(prev => prev.map((config, i) => (i === index ? { ...config, ...updates } : config)));
+  };
+
+  const addConfig = () => {
+    setDraft(prev => [
+      ...prev,
+      {
+        type: 'SMA',
+        period: 20,
+        color: MA_COLORS[prev.length % MA_COLORS.length],
+        enabled: true
+      }
+    ]);
+  };
+
+  const removeConfig = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="ma-editor-overlay" onClick={onClose}>
+      <div className="ma-editor" onClick={e => e.stopPropagation()}>
+        <h3>{title} 移動平均線</h3>
+
+        {draft.length === 0 && (
+          <p className="ma-editor-empty">移動平均線が設定されていません</p>
+        )}
+
+        {draft.map((config, index) => (
+          <div key={index} className="ma-editor-row">
+            <input
+              type="checkbox"
+              checked={config.enabled}
+              onChange={(e) => updateConfig(index, { enabled: e.target.checked })}
+              title="表示"
+            />
+            <select
+              value={config.type}
+              onChange={(e) => updateConfig(index, { type: e.target.value as MovingAverageType })}
+            >
+              <option value="SMA">SMA</option>
+              <option value="EMA">EMA</option>
+            </select>
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={config.period}
+              onChange={(e) => updateConfig(index, { period: Number(e.target.value) })}
+            />
+            <input
+              type="color"
+              value={config.color}
+              onChange={(e) => updateConfig(index, { color: e.target.value })}
+            />
+            <button className="ma-editor-remove" onClick={() => removeConfig(index)} title="削除">
+              ×
+            </button>
+          </div>
+        ))}
+
+        <div className="ma-editor-actions">
+          <button
+            className="ma-editor-add"
+            onClick={addConfig}
+            disabled={draft.length >= MAX_MOVING_AVERAGES}
+          >
+            ＋ 追加
+          </button>
+          <div className="ma-editor-buttons">
+            <button onClick={onClose}>キャンセル</button>
+            <button className="primary" onClick={() => onSave(draft)}>適用</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MovingAverageEditor;
@@ -4,10 +4,11 @@ import { Note } from '../types';
 interface NoteDrawerProps {
   isOpen: boolean;
   ticker: string;
-  onClose: () => void;
+  onClose?: () => void;
+  embedded?: boolean; // レイアウトのペインに埋め込んで常に表示する
 }
 
-const NoteDrawer: React.FC<NoteDrawerProps> = ({ isOpen, ticker, onClose }) => {
+const NoteDrawer: React.FC<NoteDrawerProps> = ({ isOpen, ticker, onClose, embedded = false }) => {
   const [notes, setNotes] = useState<Note[]>([]);
   const [newNoteText, setNewNoteText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -34,12 +35,12 @@ const NoteDrawer: React.FC<NoteDrawerProps> = ({ isOpen, ticker, onClose }) => {
 
   // ドロワーが開いたときにテキストエリアにフォーカス
   useEffect(() => {
-    if (isOpen && textareaRef.current) {
+    if (isOpen && !embedded && textareaRef.current) {
       setTimeout(() => {
         textareaRef.current?.focus();
       }, 100);
     }
-  }, [isOpen]);
+  }, [isOpen, embedded]);
 
   const handleSaveNote = useCallback(async () => {
     if (!newNoteText.trim() || !ticker) return;
@@ -53,10 +54,10 @@ const NoteDrawer: React.FC<NoteDrawerProps> = ({ isOpen, ticker, onClose }) => {
     }
   }, [newNoteText, ticker]);
 
-  // Ctrl+Enter でメモを保存
+  // Ctrl+Enter でメモを保存（ペインに埋め込んだ場合はテキストエリアで受け取る）
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.ctrlKey && event.key === 'Enter' && isOpen) {
+      if (event.ctrlKey && event.key === 'Enter' && isOpen && !embedded) {
         event.preventDefault();
         handleSaveNote();
       }
@@ -64,7 +65,7 @@ const NoteDrawer: React.FC<NoteDrawerProps> = ({ isOpen, ticker, onClose }) => {
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, handleSaveNote]);
+  }, [isOpen, embedded, handleSaveNote]);
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -78,14 +79,16 @@ const NoteDrawer: React.FC<NoteDrawerProps> = ({ isOpen, ticker, onClose }) => {
   };
 
   return (
-    <div className={`note-drawer ${isOpen ? 'open' : ''}`}>
+    <div className={embedded ? 'note-pane' : `note-drawer ${isOpen ? 'open' : ''}`}>
       <div className="note-drawer-header">
         <div className="note-drawer-title">
           メモ - {ticker}
         </div>
-        <button className="note-drawer-close" onClick={onClose}>
-          ×
-        </button>
+        {onClose && (
+          <button className="note-drawer-close" onClick={onClose}>
+            ×
+          </button>
+        )}
       </div>
       
       <div className="note-drawer-content">
@@ -95,6 +98,12 @@ const NoteDrawer: React.FC<NoteDrawerProps> = ({ isOpen, ticker, onClose }) => {
             className="note-textarea"
             value={newNoteText}
             onChange={(e) => setNewNoteText(e.target.value)}
+            onKeyDown={(e) => {
+              if (embedded && e.ctrlKey && e.key === 'Enter') {
+                e.preventDefault();
+                handleSaveNote();
+              }
+            }}
             placeholder="メモを入力してください... (Ctrl+Enter で保存)"
           />
           <button
@@ -0,0 +1,66 @@
+import React from 'react';
+import type { ReplayState } from '../types';
+import { REPLAY_SPEEDS } from '../chart/replay';
+
+interface ReplayControlsProps {
+  replay: ReplayState;
+  onStep: (delta: number) => void;
+  onTogglePlaying: () => void;
+  onIntervalChange: (intervalMs: number) => void;
+  onExit: () => void;
+}
+
+const formatReplayDate = (time: number) => new Date(time * 1000).toISOString().slice(0, 10);
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({
+  replay,
+  onStep,
+  onTogglePlaying,
+  onIntervalChange,
+  onExit
+}) => {
+  const isFirst = replay.index === 0;
+  const isLast = replay.index >= replay.times.length - 1;
+
+  return (
+    <div className="replay-controls">
+      <span className="replay-label">リプレイ</span>
+      <span className="replay-date">{formatReplayDate(replay.times[replay.index])}</span>
+      <span className="replay-progress">
+        {replay.index + 1} / {replay.times.length}
+      </span>
+
+      <button className="replay-button" onClick={() => onStep(-1)} disabled={isFirst} title="1本戻る (←)">
+        <i className="fas fa-step-backward"></i>
+      </button>
+      <button
+        className="replay-button"
+        onClick={onTogglePlaying}
+        disabled={isLast && !replay.playing}
+        title={replay.playing ? '一時停止 (P)' : '再生 (P)'}
+      >
+        <i className={`fas ${replay.playing ? 'fa-pause' : 'fa-play'}`}></i>
+      </button>
+      <button className="replay-button" onClick={() => onStep(1)} disabled={isLast} title="1本進む (→)">
+        <i className="fas fa-step-forward"></i>
+      </button>
+
+      <select
+        className="replay-speed"
+        value={replay.intervalMs}
+        onChange={(e) => onIntervalChange(Number(e.target.value))}
+        title="再生速度"
+      >
+        {REPLAY_SPEEDS.map(speed => (
+          <option key={speed.intervalMs} value={speed.intervalMs}>{speed.label}</option>
+        ))}
+      </select>
+
+      <button className="replay-exit" onClick={onExit}>
+        終了
+      </button>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -20,6 +20,8 @@ interface TickerControllerProps {
   onSearchTicker?: (query: string) => void;
   // ウォッチリストカウント用
   watchlistCounts?: { bronze: number; silver: number; gold: number; };
+  // RSレーティング（1〜99、未計算の場合は null）
+  rsRating?: number | null;
 }
 
 const TickerController: React.FC<TickerControllerProps> = ({
@@ -37,7 +39,8 @@ const TickerController: React.FC<TickerControllerProps> = ({
   onToggleFavoritesFilter: _onToggleFavoritesFilter,
   onOpenNotes,
   onSearchTicker,
-  watchlistCounts = { bronze: 0, silver: 0, gold: 0 }
+  watchlistCounts = { bronze: 0, silver: 0, gold: 0 },
+  rsRating = null
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [showWatchlistDropdown, setShowWatchlistDropdown] = useState(false);
@@ -103,6 +106,11 @@ const TickerController: React.FC<TickerControllerProps> = ({
       <div className="ticker-info">
         <div className="ticker-symbol">{currentTicker}</div>
         <div className="ticker-name">{currentTickerName}</div>
+        {rsRating !== null && (
+          <div className="ticker-rs-rating" title="RSレーティング（3・6・12ヶ月の騰落率の全銘柄中パーセンタイル）">
+            RS {rsRating}
+          </div>
+        )}
         <div className="ticker-index">
           {totalTickers > 0 ? `${currentIndex + 1} / ${totalTickers}` : ''}
           {currentFilter !== 'all' && (
@@ -1,26 +1,43 @@
-import React, { useMemo, useEffect, useRef } from 'react';
+import React, { useMemo, useEffect, useRef, useState } from 'react';
 import { Ticker, WatchlistLevel } from '../types';
+import type { RsRatings } from '../../lib/types';
 
 interface TickerListProps {
   tickers: Ticker[];
   currentTicker: string;
   watchlistLevels: Record<string, WatchlistLevel>;
   onTickerSelect: (ticker: string) => void;
+  rsRatings?: RsRatings;
 }
 
+type TickerSortKey = 'symbol' | 'rs';
+
+const NO_RS_RATINGS: RsRatings = {};
+
 const TickerList: React.FC<TickerListProps> = ({
   tickers,
   currentTicker,
   watchlistLevels,
-  onTickerSelect
+  onTickerSelect,
+  rsRatings = NO_RS_RATINGS
 }) => {
   const activeItemRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const [sortKey, setSortKey] = useState<TickerSortKey>('symbol');
 
   // ソートされた銘柄リスト（検索は上部のTickerControllerで行う）
+  // RS順はレーティングの高い順、未計算の銘柄は末尾にコード順で並べる
   const sortedTickers = useMemo(() => {
-    return [...tickers].sort((a, b) => a.symbol.localeCompare(b.symbol));
-  }, [tickers]);
+    return [...tickers].sort((a, b) => {
+      if (sortKey === 'rs') {
+        const diff = (rsRatings[b.symbol] ?? 0) - (rsRatings[a.symbol] ?? 0);
+        if (diff !== 0) {
+          return diff;
+        }
+      }
+      return a.symbol.localeCompare(b.symbol);
+    });
+  }, [tickers, sortKey, rsRatings]);
 
   // 現在の銘柄が変更されたときに自動スクロール
   useEffect(() => {
@@ -56,6 +73,15 @@ const TickerList: React.FC<TickerListProps> = ({
       <div className="ticker-list-content">
         <div className="ticker-list-count">
           {sortedTickers.length} 件の銘柄
+          <select
+            className="ticker-list-sort"
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as TickerSortKey)}
+            title="並び順"
+          >
+            <option value="symbol">コード順</option>
+            <option value="rs">RS順</option>
+          </select>
         </div>
         
         <div className="ticker-list-items" ref={scrollContainerRef}>
@@ -80,6 +106,9 @@ const TickerList: React.FC<TickerListProps> = ({
                       style={{ color: iconInfo.color }}
                     ></i>
                   )}
+                  {rsRatings[ticker.symbol] !== undefined && (
+                    <span className="ticker-rs-rating" title="RSレーティング">RS {rsRatings[ticker.symbol]}</span>
+                  )}
                 </div>
                 <div className="ticker-market">{ticker.market}</div>
               </div>
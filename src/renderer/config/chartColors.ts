@@ -84,4 +84,15 @@ export const getChartColors = (): ChartColors => {
   }
   
   return CURRENT_COLORS
-}
\ No newline at end of file
+}
+
+// #rrggbb 形式の色に透明度を付与（それ以外の形式はそのまま返す）
+export const withAlpha = (color: string, alpha: number): string => {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color)
+  if (!match) {
+    return color
+  }
+
+  const [r, g, b] = match.slice(1).map(hex => parseInt(hex, 16))
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`
+}
@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import DetachedChartWindow from './components/DetachedChartWindow';
+import type { TimeFrame } from './types';
 
 const rootElement = document.getElementById('root');
 
@@ -14,10 +16,22 @@ if (!rootElement) {
   });
   
   const root = ReactDOM.createRoot(rootElement);
+
+  // 別ウィンドウに切り出したチャートはクエリで識別する（メインプロセスが付ける）
+  const params = new URLSearchParams(window.location.search);
+  const detachedWindowId = params.get('detached');
   
   root.render(
     <React.StrictMode>
-      <App />
+      {detachedWindowId ? (
+        <DetachedChartWindow
+          windowId={detachedWindowId}
+          initialTimeFrame={(params.get('timeFrame') || '1D') as TimeFrame}
+          initialTicker={params.get('ticker') || ''}
+        />
+      ) : (
+        <App />
+      )}
     </React.StrictMode>
   );
   
@@ -76,6 +76,9 @@ export interface ChartOptions {
 
 export type TimeFrame = '60m' | '1D' | '1W' | '1M';
 
+// チャート上の描画ツール
+export type DrawingTool = 'horizontal_line' | 'trend_line' | 'rectangle' | 'text' | 'fibonacci';
+
 // ウォッチリストレベル定義
 export type WatchlistLevel = 0 | 1 | 2 | 3; // 0=なし, 1=銅, 2=銀, 3=金
 
@@ -93,6 +96,21 @@ export interface AppState {
   notes: Record<string, Note[]>;
 }
 
+// チャートリプレイの状態（times は開始日以降の日足の時刻、index は表示中の日）
+export interface ReplayState {
+  times: number[];
+  index: number;
+  playing: boolean;
+  intervalMs: number;
+}
+
+// メインウィンドウと別ウィンドウのチャートの間で、メインプロセス経由で中継する同期イベント
+export type WindowSyncEvent =
+  | { type: 'ticker'; ticker: string }
+  | { type: 'request-ticker' } // 開いたばかりの別ウィンドウが表示中の銘柄を問い合わせる
+  | { type: 'crosshair'; price: number | null; time: any; sourceChart: string; sourceTimeFrame: TimeFrame }
+  | { type: 'drawings' };
+
 export interface KeyboardShortcuts {
   'ArrowUp': () => void;
   'ArrowDown': () => void;
@@ -112,4 +130,16 @@ export interface KeyboardShortcuts {
   '3': () => void;          // 金レベル設定
   'h': () => void;          // 水平線モード切替
   'H': () => void;          // 水平線モード切替（大文字）
+  'p': () => void;          // リプレイの再生・一時停止
+  'P': () => void;          // リプレイの再生・一時停止（大文字）
+  // event.key は Shift や Caps Lock で大文字・小文字が変わる（macOS の Cmd+Shift+Z は 'z'）ため両方を登録する
+  'Ctrl+z': () => void;     // 描画を元に戻す
+  'Ctrl+Z': () => void;     // 描画を元に戻す（Caps Lock）
+  'Shift+Ctrl+Z': () => void; // 描画をやり直す
+  'Shift+Ctrl+z': () => void; // 描画をやり直す（Caps Lock）
+  'Meta+z': () => void;     // 描画を元に戻す（macOS）
+  'Meta+Z': () => void;     // 描画を元に戻す（macOS、Caps Lock）
+  'Shift+Meta+Z': () => void; // 描画をやり直す（macOS）
+  'Shift+Meta+z': () => void; // 描画をやり直す（macOS、Cmd+Shift+Z は 'z' になることが多い）
+  [layoutKey: `Ctrl+${number}`]: () => void; // レイアウトの切り替え
 }
@@ -0,0 +1,8 @@
+-- 60分足（60m）のペインで描いた描画を保存できるよう、chart_drawings の時間足に '60m' を追加する
+-- 既存の環境では schema.sql の CHECK 制約が古いままなので、こちらを実行する
+-- 60分足の株価は stock_prices の date が日付型で保持できないため、アプリの SQLite（stock_data）に保存する
+
+ALTER TABLE chart_drawings DROP CONSTRAINT IF EXISTS chart_drawings_timeframe_check;
+
+ALTER TABLE chart_drawings ADD CONSTRAINT chart_drawings_timeframe_check
+  CHECK (timeframe IN ('60m', '1D', '1W', '1M', '4H', '1H'));
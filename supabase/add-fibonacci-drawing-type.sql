@@ -0,0 +1,7 @@
+-- chart_drawings にフィボナッチ（fibonacci）の描画種別を追加する
+-- 既存の環境では schema.sql の CHECK 制約が古いままなので、こちらを実行する
+
+ALTER TABLE chart_drawings DROP CONSTRAINT IF EXISTS chart_drawings_type_check;
+
+ALTER TABLE chart_drawings ADD CONSTRAINT chart_drawings_type_check
+  CHECK (type IN ('horizontal_line', 'trend_line', 'rectangle', 'text', 'fibonacci'));
@@ -54,8 +54,8 @@ CREATE TABLE chart_drawings (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   ticker TEXT NOT NULL,
-  timeframe TEXT NOT NULL CHECK (timeframe IN ('1D', '1W', '1M', '4H', '1H')),
-  type TEXT NOT NULL CHECK (type IN ('horizontal_line', 'trend_line', 'rectangle', 'text')),
+  timeframe TEXT NOT NULL CHECK (timeframe IN ('60m', '1D', '1W', '1M', '4H', '1H')),
+  type TEXT NOT NULL CHECK (type IN ('horizontal_line', 'trend_line', 'rectangle', 'text', 'fibonacci')),
   data JSONB NOT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// vite.config.ts は root が src/renderer なので、テストはリポジトリ直下から探す
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node'
+  }
+})